@@ -21,15 +21,16 @@ export const updateModel = async (modelUpdate: ModelUpdate) => {
     }
 };
 
-export const swapEditors = async (userConfig: UserConfig, code: string, codeOriginal?: string) => {
-    userConfig.wrapperConfig.editorAppConfig.useDiffEditor = !userConfig.wrapperConfig.editorAppConfig.useDiffEditor;
-    saveMainCode(!userConfig.wrapperConfig.editorAppConfig.useDiffEditor);
-    configureCodeEditors(userConfig, code, codeOriginal);
-    await restartEditor(userConfig);
+export const swapEditors = async (userConfig: UserConfig, codeOriginal?: string) => {
+    const useDiffEditor = !userConfig.wrapperConfig.editorAppConfig.useDiffEditor;
+    userConfig.wrapperConfig.editorAppConfig.useDiffEditor = useDiffEditor;
+    // the model and the language client are kept, only the editor widget is replaced
+    await wrapper.setEditorMode(useDiffEditor ? 'diff' : 'code', { codeOriginal });
+    logEditorInfo(userConfig);
 };
 
 export const disposeEditor = async (userConfig: UserConfig) => {
-    wrapper.reportStatus();
+    console.log(wrapper.getStatus());
     toggleSwapDiffButton(false);
     const useDiffEditor = userConfig.wrapperConfig.editorAppConfig.useDiffEditor;
     const codeMain = saveMainCode(useDiffEditor);
@@ -24,13 +24,11 @@ const startEditor = async () => {
 };
 
 const disposeEditor = async () => {
-    wrapper.reportStatus();
     await wrapper.dispose();
-    console.log(wrapper.reportStatus().join('\n'));
+    console.log(wrapper.getStatus());
 
-    wrapper2.reportStatus();
     await wrapper2.dispose();
-    console.log(wrapper2.reportStatus().join('\n'));
+    console.log(wrapper2.getStatus());
 };
 
 try {
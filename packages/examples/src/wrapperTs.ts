@@ -54,7 +54,7 @@ try {
         startEditor(userConfig, code, codeOriginal);
     });
     document.querySelector('#button-swap')?.addEventListener('click', () => {
-        swapEditors(userConfig, code, codeOriginal);
+        swapEditors(userConfig, codeOriginal);
     });
     document.querySelector('#button-swap-code')?.addEventListener('click', () => {
         if (wrapper.getMonacoEditorApp()?.getConfig().codeUri === codeUri) {
@@ -0,0 +1,20 @@
+import { computeMinimalEdit } from 'monaco-editor-wrapper';
+import { editor, Range } from 'monaco-editor';
+
+/**
+ * Applies the value to the model as a minimal edit, so the cursor and the undo stack are kept.
+ * The edit is a separate undo step. Returns false if the model already has the value.
+ */
+export const applyValue = (model: editor.ITextModel, value: string): boolean => {
+    // the model normalizes line endings, comparing with the original value would never match
+    const normalizedValue = value.replace(/\r\n|\r|\n/g, model.getEOL());
+    const edit = computeMinimalEdit(model.getValue(), normalizedValue);
+    if (!edit) {
+        return false;
+    }
+    const range = Range.fromPositions(model.getPositionAt(edit.offset), model.getPositionAt(edit.offset + edit.length));
+    model.pushStackElement();
+    model.pushEditOperations([], [{ range, text: edit.text }], () => null);
+    model.pushStackElement();
+    return true;
+};
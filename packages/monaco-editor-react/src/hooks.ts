@@ -0,0 +1,131 @@
+import { DiagnosticsFilter, LanguageClientStatus, MonacoEditorLanguageClientWrapper, UserConfig } from 'monaco-editor-wrapper';
+import { editor, IDisposable } from 'monaco-editor';
+import { RefObject, useEffect, useRef, useState } from 'react';
+
+export type MonacoWrapperStatus = 'idle' | 'starting' | 'started' | 'error';
+
+export type MonacoWrapperState = {
+    /** The same instance for the whole lifetime of the component, also across restarts */
+    wrapper: MonacoEditorLanguageClientWrapper;
+    status: MonacoWrapperStatus;
+    /** The error the last start failed with */
+    error?: unknown;
+};
+
+/**
+ * Starts a wrapper rendering into the given container and disposes it on unmount. The wrapper is restarted whenever
+ * userConfig changes, so keep it stable, e.g. with useMemo. The htmlElement of the userConfig is replaced by the container.
+ *
+ * Mount and unmount are queued: A remount, as done by StrictMode, waits until the wrapper is disposed.
+ */
+export const useMonacoWrapper = (containerRef: RefObject<HTMLElement>, userConfig: UserConfig): MonacoWrapperState => {
+    const [wrapper] = useState(() => new MonacoEditorLanguageClientWrapper());
+    const [state, setState] = useState<Omit<MonacoWrapperState, 'wrapper'>>({ status: 'idle' });
+    // start and dispose of the wrapper are run one after the other
+    const lifecycle = useRef<Promise<void>>(Promise.resolve());
+
+    useEffect(() => {
+        const htmlElement = containerRef.current;
+        if (!htmlElement) {
+            return;
+        }
+        const abortController = new AbortController();
+        const start = lifecycle.current.then(async () => {
+            if (abortController.signal.aborted) {
+                return;
+            }
+            setState({ status: 'starting' });
+            try {
+                await wrapper.start({ ...userConfig, htmlElement }, { signal: abortController.signal });
+                setState({ status: 'started' });
+            } catch (e) {
+                if (!abortController.signal.aborted) {
+                    setState({ status: 'error', error: e });
+                }
+            }
+        });
+        lifecycle.current = start;
+
+        return () => {
+            // an unmount during the start cancels it instead of waiting for the languageclient
+            abortController.abort();
+            lifecycle.current = start.then(async () => {
+                try {
+                    await wrapper.dispose();
+                } catch {
+                    // Sometimes the language client throws an error during disposal
+                }
+            });
+        };
+    }, [containerRef, userConfig, wrapper]);
+
+    return { wrapper, ...state };
+};
+
+/**
+ * Returns the value computed by getValue. It is computed again whenever one of the subscriptions calls update
+ * and when the deps change.
+ */
+const useWrapperValue = <T>(getValue: () => T, subscribe: (update: () => void) => IDisposable[], deps: unknown[]): T => {
+    const [value, setValue] = useState<T>(getValue);
+
+    useEffect(() => {
+        const update = () => setValue(getValue);
+        const subscriptions = subscribe(update);
+        update();
+        return () => subscriptions.forEach(subscription => subscription.dispose());
+    }, deps);
+
+    return value;
+};
+
+/**
+ * The regular editor or the modified side of the diff editor
+ */
+const getCodeEditor = (wrapper: MonacoEditorLanguageClientWrapper): editor.ICodeEditor | undefined => {
+    return wrapper.getEditor() ?? wrapper.getDiffEditor()?.getModifiedEditor();
+};
+
+/**
+ * Returns the model shown in the regular editor or the modified model of the diff editor. It changes on start,
+ * dispose, when the editor mode is switched and when another model is shown.
+ */
+export const useEditorModel = (wrapper: MonacoEditorLanguageClientWrapper): editor.ITextModel | undefined => {
+    const editorSubscription = useRef<IDisposable>();
+    return useWrapperValue(() => getCodeEditor(wrapper)?.getModel() ?? undefined, update => {
+        const subscribeToEditor = () => {
+            editorSubscription.current?.dispose();
+            editorSubscription.current = getCodeEditor(wrapper)?.onDidChangeModel(update);
+            update();
+        };
+        subscribeToEditor();
+        return [
+            wrapper.onDidStartEditor(subscribeToEditor),
+            wrapper.onDidDisposeEditor(subscribeToEditor),
+            { dispose: () => editorSubscription.current?.dispose() }
+        ];
+    }, [wrapper]);
+};
+
+/**
+ * Returns the status of the languageclient with the given name, or of the first one if no name is given.
+ */
+export const useLanguageClientStatus = (wrapper: MonacoEditorLanguageClientWrapper, name?: string): LanguageClientStatus | undefined => {
+    return useWrapperValue(() => wrapper.getLanguageClientWrapper(name)?.getStatus(), update => [
+        wrapper.onDidStartLanguageClient(update),
+        wrapper.onLanguageClientStateChange(update),
+        wrapper.onDidDisposeEditor(update)
+    ], [wrapper, name]);
+};
+
+/**
+ * Returns the markers of the model with the given uri, or of the model shown in the editor if no uri is given.
+ * The filter is compared by value, so it can be created inline.
+ */
+export const useDiagnostics = (wrapper: MonacoEditorLanguageClientWrapper, uri?: string, filter?: DiagnosticsFilter): editor.IMarker[] => {
+    const model = useEditorModel(wrapper);
+    const key = uri ?? model?.uri.toString();
+    return useWrapperValue(() => key !== undefined ? wrapper.getDiagnostics(key, filter) : [], update => [
+        wrapper.onDidChangeDiagnostics(update)
+    ], [wrapper, key, filter?.owner, filter?.severities?.join()]);
+};
@@ -1,23 +1,49 @@
-import { EditorAppConfigClassic, MonacoEditorLanguageClientWrapper, UserConfig, WorkerConfigDirect, WorkerConfigOptions } from 'monaco-editor-wrapper';
+import { EditorAppConfigClassic, EditorAppConfigVscodeApi, MonacoEditorLanguageClientWrapper, UserConfig, WorkerConfigDirect, WorkerConfigOptions } from 'monaco-editor-wrapper';
 import { IDisposable } from 'monaco-editor';
 import * as vscode from 'vscode';
 import React, { CSSProperties } from 'react';
+import { applyValue } from './controlledValue.js';
+
+export * from './hooks.js';
+export * from './monacoEditor.js';
+
+type EditorAppConfig = EditorAppConfigClassic | EditorAppConfigVscodeApi;
 
 export type MonacoEditorProps = {
     style?: CSSProperties;
     className?: string;
     userConfig: UserConfig,
+    /** Controlled content of the editor. Changes are applied as minimal edits keeping the cursor and the undo stack. */
+    value?: string;
+    /** Called on every change made in the editor, but not for changes of value */
+    onChange?: (value: string) => void;
     onTextChanged?: (text: string, isDirty: boolean) => void;
     onLoading?: () => void;
     onLoad?: () => void;
 }
 
+// changes of these properties are applied to the running editor app
+const updatableEditorAppProperties = ['languageId', 'code', 'editorOptions'];
+
+const mustRestartEditorApp = (prevConfig: EditorAppConfig, config: EditorAppConfig) => {
+    if (prevConfig === config) {
+        return false;
+    }
+    const prevEntries = prevConfig as Record<string, unknown>;
+    const entries = config as Record<string, unknown>;
+    const keys = new Set([...Object.keys(prevEntries), ...Object.keys(entries)]);
+    return [...keys].some(key => !updatableEditorAppProperties.includes(key) && prevEntries[key] !== entries[key]);
+};
+
 export class MonacoEditorReactComp extends React.Component<MonacoEditorProps> {
 
     private wrapper: MonacoEditorLanguageClientWrapper = new MonacoEditorLanguageClientWrapper();
     private containerElement?: HTMLDivElement;
     private _subscription: IDisposable | null = null;
     private isStarting?: Promise<void>;
+    private startAbortController?: AbortController;
+    // changes applied from value are not reported back by onChange
+    private applyingValue = false;
 
     constructor(props: MonacoEditorProps) {
         super(props);
@@ -34,13 +60,17 @@ export class MonacoEditorReactComp extends React.Component<MonacoEditorProps> {
     }
 
     override async componentDidUpdate(prevProps: MonacoEditorProps) {
-        const { className, userConfig } = this.props;
+        const { className, userConfig, value } = this.props;
         const { wrapper } = this;
 
         if (prevProps.className !== className && this.containerElement) {
             this.containerElement.className = className ?? '';
         }
 
+        if (value !== prevProps.value) {
+            this.applyValue();
+        }
+
         let mustReInit = false;
         const prevWorkerOptions = prevProps.userConfig.languageClientConfig?.options;
         const currentWorkerOptions = userConfig.languageClientConfig?.options;
@@ -66,9 +96,9 @@ export class MonacoEditorReactComp extends React.Component<MonacoEditorProps> {
             if (wrapper !== null) {
                 let restarted = false;
 
-                // we need to restart if the editor wrapper config changed
-                if (prevProps.userConfig.wrapperConfig.editorAppConfig !==
-                    userConfig.wrapperConfig.editorAppConfig) {
+                // we need to restart if the editor wrapper config changed beyond the model and the editor options
+                if (mustRestartEditorApp(prevProps.userConfig.wrapperConfig.editorAppConfig,
+                    userConfig.wrapperConfig.editorAppConfig)) {
                     restarted = true;
                     await this.handleReinit();
                 }
@@ -86,11 +116,14 @@ export class MonacoEditorReactComp extends React.Component<MonacoEditorProps> {
                     const prevLanguageId = prevProps.userConfig.wrapperConfig.editorAppConfig.languageId;
                     const code = userConfig.wrapperConfig.editorAppConfig.code;
                     const prevCode = prevProps.userConfig.wrapperConfig.editorAppConfig.code;
-                    if (languageId !== prevLanguageId && code !== prevCode) {
-                        this.wrapper.updateModel({
+                    if (languageId !== prevLanguageId || code !== prevCode) {
+                        await this.wrapper.updateModel({
                             languageId: languageId,
                             code: code
                         });
+                        // the previous model was disposed
+                        this.applyValue();
+                        this.subscribeModel();
                     }
                 }
 
@@ -108,7 +141,13 @@ export class MonacoEditorReactComp extends React.Component<MonacoEditorProps> {
 
     private async destroyMonaco(): Promise<void> {
         if (this.wrapper) {
-            await this.isStarting;
+            // an unmount during the start cancels it instead of waiting for the languageclient
+            this.startAbortController?.abort();
+            try {
+                await this.isStarting;
+            } catch {
+                // The aborted start rejects
+            }
             try {
                 await this.wrapper.dispose();
             } catch {
@@ -126,7 +165,6 @@ export class MonacoEditorReactComp extends React.Component<MonacoEditorProps> {
         const {
             className,
             userConfig,
-            onTextChanged,
             onLoading,
             onLoad,
         } = this.props;
@@ -135,26 +173,67 @@ export class MonacoEditorReactComp extends React.Component<MonacoEditorProps> {
             this.containerElement.className = className ?? '';
 
             userConfig.htmlElement = this.containerElement;
-            this.isStarting = this.wrapper.start(userConfig);
-            await this.isStarting;
+            const startAbortController = new AbortController();
+            this.startAbortController = startAbortController;
+            this.isStarting = this.wrapper.start(userConfig, { signal: startAbortController.signal });
+            try {
+                await this.isStarting;
+            } catch (e) {
+                if (startAbortController.signal.aborted) {
+                    // the component was unmounted or re-initialized during the start
+                    return;
+                }
+                throw e;
+            }
 
             onLoading && onLoading();
             onLoad && this.isStarting?.then(() => onLoad());
 
-            if (onTextChanged) {
-                const model = this.wrapper.getModel();
-                if (model) {
-                    const verifyModelContent = () => {
-                        const modelText = model.getValue();
-                        onTextChanged(modelText, modelText !== userConfig.wrapperConfig.editorAppConfig.code);
-                    };
-
-                    this._subscription = model.onDidChangeContent(() => {
-                        verifyModelContent();
-                    });
-                    // do it initially
+            this.applyValue();
+            this.subscribeModel();
+        }
+    }
+
+    private subscribeModel() {
+        this._subscription?.dispose();
+        this._subscription = null;
+        const model = this.wrapper.getModel();
+        if (model) {
+            const verifyModelContent = () => {
+                this.props.onTextChanged?.(model.getValue(), this.wrapper.isDirty(model.uri.toString()));
+            };
+
+            // a save changes the dirty state without changing the content
+            const dirtySubscription = this.wrapper.onDidChangeDirty(event => {
+                if (event.uri === model.uri.toString() && !event.dirty) {
                     verifyModelContent();
                 }
+            });
+            const contentSubscription = model.onDidChangeContent(() => {
+                if (!this.applyingValue) {
+                    this.props.onChange?.(model.getValue());
+                }
+                verifyModelContent();
+            });
+            this._subscription = {
+                dispose: () => {
+                    dirtySubscription.dispose();
+                    contentSubscription.dispose();
+                }
+            };
+            // do it initially
+            verifyModelContent();
+        }
+    }
+
+    private applyValue() {
+        const model = this.wrapper.getModel();
+        if (model && this.props.value !== undefined) {
+            this.applyingValue = true;
+            try {
+                applyValue(model, this.props.value);
+            } finally {
+                this.applyingValue = false;
             }
         }
     }
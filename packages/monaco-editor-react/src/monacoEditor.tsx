@@ -0,0 +1,95 @@
+import { MonacoEditorLanguageClientWrapper, UserConfig } from 'monaco-editor-wrapper';
+import React, { CSSProperties, forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { useEditorModel, useMonacoWrapper } from './hooks.js';
+import { applyValue } from './controlledValue.js';
+
+export type MonacoEditorFunctionProps = {
+    style?: CSSProperties;
+    className?: string;
+    /** The wrapper is restarted whenever the userConfig changes, so keep it stable, e.g. with useMemo */
+    userConfig: UserConfig;
+    /** Controlled content of the editor. Changes are applied as minimal edits keeping the cursor and the undo stack. */
+    value?: string;
+    /** Called on every change made in the editor, but not for changes of value */
+    onChange?: (value: string) => void;
+    onTextChanged?: (text: string, isDirty: boolean) => void;
+    onLoading?: () => void;
+    onLoad?: () => void;
+    onError?: (error: unknown) => void;
+};
+
+/**
+ * Function component rendering the editor of a MonacoEditorLanguageClientWrapper. The ref receives the wrapper.
+ */
+export const MonacoEditor = forwardRef<MonacoEditorLanguageClientWrapper, MonacoEditorFunctionProps>((props, ref) => {
+    const { style, className, userConfig, value } = props;
+    const containerRef = useRef<HTMLDivElement>(null);
+    const { wrapper, status, error } = useMonacoWrapper(containerRef, userConfig);
+    const model = useEditorModel(wrapper);
+
+    // the callbacks may change on every render without restarting anything
+    const callbacks = useRef(props);
+    callbacks.current = props;
+    // changes applied from value are not reported back by onChange
+    const applyingValue = useRef(false);
+
+    useImperativeHandle(ref, () => wrapper, [wrapper]);
+
+    useEffect(() => {
+        if (status === 'starting') {
+            callbacks.current.onLoading?.();
+        } else if (status === 'started') {
+            callbacks.current.onLoad?.();
+        } else if (status === 'error') {
+            callbacks.current.onError?.(error);
+        }
+    }, [status, error]);
+
+    useEffect(() => {
+        if (!model) {
+            return;
+        }
+        const verifyModelContent = () => {
+            callbacks.current.onTextChanged?.(model.getValue(), wrapper.isDirty(model.uri.toString()));
+        };
+        // a save changes the dirty state without changing the content
+        const dirtySubscription = wrapper.onDidChangeDirty(event => {
+            if (event.uri === model.uri.toString() && !event.dirty) {
+                verifyModelContent();
+            }
+        });
+        const contentSubscription = model.onDidChangeContent(() => {
+            if (!applyingValue.current) {
+                callbacks.current.onChange?.(model.getValue());
+            }
+            verifyModelContent();
+        });
+        // do it initially
+        verifyModelContent();
+        return () => {
+            dirtySubscription.dispose();
+            contentSubscription.dispose();
+        };
+    }, [model, wrapper]);
+
+    useEffect(() => {
+        if (!model || value === undefined) {
+            return;
+        }
+        applyingValue.current = true;
+        try {
+            applyValue(model, value);
+        } finally {
+            applyingValue.current = false;
+        }
+    }, [model, value]);
+
+    return (
+        <div
+            ref={containerRef}
+            style={style}
+            className={className}
+        />
+    );
+});
+MonacoEditor.displayName = 'MonacoEditor';
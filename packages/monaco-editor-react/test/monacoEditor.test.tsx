@@ -0,0 +1,256 @@
+import { describe, expect, test } from 'vitest';
+import React, { createRef, StrictMode, useRef, useState } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { act } from 'react-dom/test-utils';
+import { Range } from 'monaco-editor';
+import { MonacoEditorLanguageClientWrapper, UserConfig } from 'monaco-editor-wrapper';
+import { MonacoEditor, MonacoEditorReactComp, useEditorModel, useMonacoWrapper } from '@typefox/monaco-editor-react';
+
+import { buildWorkerDefinition } from 'monaco-editor-workers';
+buildWorkerDefinition('../../../node_modules/monaco-editor-workers/dist/workers', import.meta.url, false);
+
+// state updates are only flushed by act in a test environment
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const createUserConfig = (useDiffEditor: boolean, code = ''): UserConfig => {
+    return {
+        // replaced by the container of the component
+        htmlElement: document.body,
+        wrapperConfig: {
+            editorAppConfig: {
+                $type: 'classic',
+                languageId: 'typescript',
+                code,
+                codeOriginal: '',
+                useDiffEditor
+            }
+        }
+    };
+};
+
+const render = async (element: React.ReactElement): Promise<{ root: Root, container: HTMLElement }> => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const root = createRoot(container);
+    await act(async () => root.render(element));
+    return { root, container };
+};
+
+/**
+ * The wrapper starts asynchronously, so wait until the condition is met.
+ */
+const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 100 && !condition(); i++) {
+        await act(() => new Promise(resolve => setTimeout(resolve, 20)));
+    }
+    expect(condition()).toBeTruthy();
+};
+
+describe('Test MonacoEditor', () => {
+
+    test('MonacoEditor starts the wrapper and reports the content by onTextChanged', async () => {
+        const ref = createRef<MonacoEditorLanguageClientWrapper>();
+        const events: string[] = [];
+        const texts: string[] = [];
+        const { root } = await render(
+            <MonacoEditor
+                ref={ref}
+                userConfig={createUserConfig(false, 'const a = 1;')}
+                onLoading={() => events.push('loading')}
+                onLoad={() => events.push('load')}
+                onTextChanged={text => texts.push(text)} />
+        );
+        await waitFor(() => events.includes('load'));
+        expect(events).toEqual(['loading', 'load']);
+        expect(ref.current!.isStarted()).toBeTruthy();
+        expect(texts).toEqual(['const a = 1;']);
+
+        ref.current!.getEditor()!.executeEdits('test', [{ range: new Range(1, 13, 1, 13), text: ' // edited' }]);
+        expect(texts).toEqual(['const a = 1;', 'const a = 1; // edited']);
+
+        await act(async () => root.unmount());
+    });
+
+    test('useEditorModel returns the model shown in the editor', async () => {
+        const userConfig = createUserConfig(false, 'const a = 1;');
+        let wrapper: MonacoEditorLanguageClientWrapper | undefined;
+        let model: ReturnType<typeof useEditorModel>;
+        const ModelEditor = () => {
+            const containerRef = useRef<HTMLDivElement>(null);
+            wrapper = useMonacoWrapper(containerRef, userConfig).wrapper;
+            model = useEditorModel(wrapper);
+            return <div ref={containerRef} />;
+        };
+        const { root } = await render(<ModelEditor />);
+        await waitFor(() => model?.getValue() === 'const a = 1;');
+
+        await act(() => wrapper!.updateModel({ languageId: 'typescript', code: 'const b = 2;' }));
+        await waitFor(() => model?.getValue() === 'const b = 2;');
+        expect(model).toBe(wrapper!.getModel());
+
+        await act(async () => root.unmount());
+    });
+
+    test('StrictMode double mount starts one editor', async () => {
+        const ref = createRef<MonacoEditorLanguageClientWrapper>();
+        let loads = 0;
+        const { root, container } = await render(
+            <StrictMode>
+                <MonacoEditor ref={ref} userConfig={createUserConfig(false, 'const a = 1;')} onLoad={() => loads++} />
+            </StrictMode>
+        );
+        await waitFor(() => ref.current?.isStarted() === true && loads > 0);
+        const wrapper = ref.current!;
+        expect(loads).toBe(1);
+        expect(container.querySelectorAll('.monaco-editor').length).toBe(1);
+        expect(wrapper.getModel()?.getValue()).toBe('const a = 1;');
+
+        await act(async () => root.unmount());
+        await waitFor(() => !wrapper.isStarted());
+    });
+
+    test('Controlled value is applied as minimal edit and not reported by onChange', async () => {
+        const ref = createRef<MonacoEditorLanguageClientWrapper>();
+        const userConfig = createUserConfig(false);
+        const changes: string[] = [];
+        const onChange = (value: string) => changes.push(value);
+        const { root } = await render(<MonacoEditor ref={ref} userConfig={userConfig} value='const a = 1;' onChange={onChange} />);
+        await waitFor(() => ref.current?.getModel()?.getValue() === 'const a = 1;');
+        const model = ref.current!.getModel()!;
+        const codeEditor = ref.current!.getEditor()!;
+        codeEditor.setPosition({ lineNumber: 1, column: 3 });
+
+        await act(async () => root.render(<MonacoEditor ref={ref} userConfig={userConfig} value='const a = 2;' onChange={onChange} />));
+        expect(ref.current!.getModel()).toBe(model);
+        expect(model.getValue()).toBe('const a = 2;');
+        expect(codeEditor.getPosition()?.column).toBe(3);
+        expect(changes).toEqual([]);
+
+        // the external change is a separate undo step
+        codeEditor.trigger('test', 'undo', null);
+        expect(model.getValue()).toBe('const a = 1;');
+        expect(changes).toEqual(['const a = 1;']);
+
+        codeEditor.executeEdits('test', [{ range: new Range(1, 13, 1, 13), text: ' // edited' }]);
+        expect(changes).toEqual(['const a = 1;', 'const a = 1; // edited']);
+
+        await act(async () => root.unmount());
+    });
+
+    test('Changes passed back as value by onChange are not applied again', async () => {
+        const ref = createRef<MonacoEditorLanguageClientWrapper>();
+        const userConfig = createUserConfig(false);
+        const changes: string[] = [];
+        const ControlledEditor = () => {
+            const [value, setValue] = useState('const a = 1;');
+            return <MonacoEditor ref={ref} userConfig={userConfig} value={value} onChange={changed => {
+                changes.push(changed);
+                setValue(changed);
+            }} />;
+        };
+        const { root } = await render(<ControlledEditor />);
+        await waitFor(() => ref.current?.getModel()?.getValue() === 'const a = 1;');
+        const model = ref.current!.getModel()!;
+        const codeEditor = ref.current!.getEditor()!;
+        codeEditor.setPosition({ lineNumber: 1, column: 13 });
+
+        await act(async () => codeEditor.trigger('test', 'type', { text: ' // typed' }));
+        expect(model.getValue()).toBe('const a = 1; // typed');
+        expect(changes).toEqual(['const a = 1; // typed']);
+
+        // the value passed back did not add an undo step
+        await act(async () => codeEditor.trigger('test', 'undo', null));
+        expect(model.getValue()).toBe('const a = 1;');
+        expect(changes).toEqual(['const a = 1; // typed', 'const a = 1;']);
+
+        await act(async () => root.unmount());
+    });
+
+    test('MonacoEditorReactComp applies the controlled value keeping cursor and undo stack', async () => {
+        const ref = createRef<MonacoEditorReactComp>();
+        const userConfig = createUserConfig(false);
+        const changes: string[] = [];
+        const onChange = (value: string) => changes.push(value);
+        const { root } = await render(<MonacoEditorReactComp ref={ref} userConfig={userConfig} value='const a = 1;' onChange={onChange} />);
+        await waitFor(() => ref.current?.getEditorWrapper().getModel()?.getValue() === 'const a = 1;');
+        const model = ref.current!.getEditorWrapper().getModel()!;
+        const codeEditor = ref.current!.getEditorWrapper().getEditor()!;
+        codeEditor.setPosition({ lineNumber: 1, column: 3 });
+
+        await act(async () => root.render(<MonacoEditorReactComp ref={ref} userConfig={userConfig} value='const a = 2;' onChange={onChange} />));
+        expect(ref.current!.getEditorWrapper().getModel()).toBe(model);
+        expect(model.getValue()).toBe('const a = 2;');
+        expect(codeEditor.getPosition()?.column).toBe(3);
+        expect(changes).toEqual([]);
+
+        codeEditor.trigger('test', 'undo', null);
+        expect(model.getValue()).toBe('const a = 1;');
+        expect(changes).toEqual(['const a = 1;']);
+
+        await act(async () => root.unmount());
+    });
+
+    test('MonacoEditorReactComp does not apply changes passed back as value by onChange again', async () => {
+        const ref = createRef<MonacoEditorReactComp>();
+        const userConfig = createUserConfig(false);
+        const changes: string[] = [];
+        const ControlledEditor = () => {
+            const [value, setValue] = useState('const a = 1;');
+            return <MonacoEditorReactComp ref={ref} userConfig={userConfig} value={value} onChange={changed => {
+                changes.push(changed);
+                setValue(changed);
+            }} />;
+        };
+        const { root } = await render(<ControlledEditor />);
+        await waitFor(() => ref.current?.getEditorWrapper().getModel()?.getValue() === 'const a = 1;');
+        const model = ref.current!.getEditorWrapper().getModel()!;
+        const codeEditor = ref.current!.getEditorWrapper().getEditor()!;
+        codeEditor.setPosition({ lineNumber: 1, column: 13 });
+
+        await act(async () => codeEditor.trigger('test', 'type', { text: ' // typed' }));
+        expect(model.getValue()).toBe('const a = 1; // typed');
+        expect(changes).toEqual(['const a = 1; // typed']);
+
+        await act(async () => codeEditor.trigger('test', 'undo', null));
+        expect(model.getValue()).toBe('const a = 1;');
+        expect(changes).toEqual(['const a = 1; // typed', 'const a = 1;']);
+
+        await act(async () => root.unmount());
+    });
+
+    test('Controlled value is applied to the modified model of the diff editor', async () => {
+        const ref = createRef<MonacoEditorLanguageClientWrapper>();
+        const userConfig = createUserConfig(true);
+        const { root } = await render(<MonacoEditor ref={ref} userConfig={userConfig} value='const a = 1;' />);
+        await waitFor(() => ref.current?.getDiffEditor()?.getModel()?.modified.getValue() === 'const a = 1;');
+        const model = ref.current!.getDiffEditor()!.getModel()!.modified;
+
+        await act(async () => ref.current!.setEditorMode('code'));
+        await act(async () => root.render(<MonacoEditor ref={ref} userConfig={userConfig} value='const a = 2;' />));
+        expect(ref.current!.getEditor()!.getModel()).toBe(model);
+        expect(model.getValue()).toBe('const a = 2;');
+
+        await act(async () => root.unmount());
+    });
+
+    test('Changes of the new model are reported after the code of the config changed', async () => {
+        const ref = createRef<MonacoEditorReactComp>();
+        const userConfig = createUserConfig(false);
+        const changes: string[] = [];
+        const onChange = (value: string) => changes.push(value);
+        const { root } = await render(<MonacoEditorReactComp ref={ref} userConfig={userConfig} onChange={onChange} />);
+        await waitFor(() => ref.current?.getEditorWrapper().isStarted() === true);
+        const codeEditor = ref.current!.getEditorWrapper().getEditor();
+
+        // only the code changed, so the model is replaced without restarting the editor
+        const updatedConfig = createUserConfig(false, 'const a = 1;');
+        await act(async () => root.render(<MonacoEditorReactComp ref={ref} userConfig={updatedConfig} onChange={onChange} />));
+        await waitFor(() => ref.current?.getEditorWrapper().getModel()?.getValue() === 'const a = 1;');
+        expect(ref.current!.getEditorWrapper().getEditor()).toBe(codeEditor);
+
+        codeEditor!.executeEdits('test', [{ range: new Range(1, 13, 1, 13), text: ' // edited' }]);
+        expect(changes).toEqual(['const a = 1; // edited']);
+
+        await act(async () => root.unmount());
+    });
+});
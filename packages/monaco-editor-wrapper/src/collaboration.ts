@@ -0,0 +1,537 @@
+import { editor, IDisposable, Range } from 'monaco-editor';
+import { CollaborationOperation, CollaborationSpan, CollaborationState, CollaborationVersion, ReplicatedText, TextEdit } from './replicatedText.js';
+
+export type CollaborationSelection = {
+    anchor: number;
+    head: number;
+};
+
+/**
+ * Messages exchanged between the participants. With acknowledge a participant tells which changes it has seen and
+ * the lowest clock of the changes it may still undo or redo, so the others know when tombstones can be removed.
+ */
+export type CollaborationMessage =
+    { type: 'edit', siteId: string, previous: number, operations: CollaborationOperation[] } |
+    { type: 'cursor', siteId: string, userName?: string, color?: string, selections: CollaborationSelection[] } |
+    { type: 'syncRequest', siteId: string } |
+    { type: 'sync', siteId: string, target: string, state: CollaborationState } |
+    { type: 'acknowledge', siteId: string, version: CollaborationVersion, retain?: number } |
+    { type: 'leave', siteId: string };
+
+export interface CollaborationConnection {
+    send(message: CollaborationMessage): void;
+    dispose(): void;
+}
+
+/**
+ * Transport used to exchange changes and cursors between all participants of a shared document.
+ * Every message has to reach every other participant, but in no particular order: changes are merged with a CRDT,
+ * so concurrent edits converge to the same content for all participants.
+ */
+export interface CollaborationProvider {
+    connect(documentId: string, onMessage: (message: CollaborationMessage) => void): CollaborationConnection | Promise<CollaborationConnection>;
+}
+
+export type CollaborationConfig = {
+    provider: CollaborationProvider;
+    /** Identifies the shared document. Defaults to the uri of the model */
+    documentId?: string;
+    userName?: string;
+    /** Hex or rgb color used by other participants to render the cursor of this user, other notations are ignored */
+    color?: string;
+};
+
+/**
+ * Delivers messages to all other connections of the same document inside the current JavaScript context.
+ * It is meant for testing and for editors shown side by side on one page.
+ */
+export class InMemoryCollaborationProvider implements CollaborationProvider {
+
+    private documents: Map<string, Set<(message: CollaborationMessage) => void>> = new Map();
+
+    connect(documentId: string, onMessage: (message: CollaborationMessage) => void): CollaborationConnection {
+        let listeners = this.documents.get(documentId);
+        if (!listeners) {
+            listeners = new Set();
+            this.documents.set(documentId, listeners);
+        }
+        listeners.add(onMessage);
+
+        return {
+            send: (message: CollaborationMessage) => {
+                for (const listener of Array.from(listeners!)) {
+                    if (listener !== onMessage) {
+                        listener(message);
+                    }
+                }
+            },
+            dispose: () => {
+                listeners!.delete(onMessage);
+                if (listeners!.size === 0) {
+                    this.documents.delete(documentId);
+                }
+            }
+        };
+    }
+}
+
+/**
+ * Exchanges messages via BroadcastChannel, so editors in different tabs or windows of the same origin can collaborate.
+ */
+export class BroadcastChannelCollaborationProvider implements CollaborationProvider {
+
+    private channelPrefix: string;
+
+    constructor(channelPrefix = 'monaco-editor-wrapper-collaboration') {
+        this.channelPrefix = channelPrefix;
+    }
+
+    connect(documentId: string, onMessage: (message: CollaborationMessage) => void): CollaborationConnection {
+        const channel = new BroadcastChannel(`${this.channelPrefix}:${documentId}`);
+        channel.onmessage = (ev: MessageEvent<CollaborationMessage>) => onMessage(ev.data);
+
+        return {
+            send: (message: CollaborationMessage) => channel.postMessage(message),
+            dispose: () => channel.close()
+        };
+    }
+}
+
+type RemoteParticipant = {
+    /** Local number of the participant, used for its CSS classes */
+    index: number;
+    userName?: string;
+    color: string;
+    decorations: string[];
+};
+
+const defaultColors = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#9a6324'];
+
+/** Colors of remote participants are written into a style sheet, so only hex and rgb notations are accepted */
+const colorPattern = /^(#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|rgba?\(\s*\d{1,3}%?\s*(,\s*\d{1,3}%?\s*){2}(,\s*(0|1|0?\.\d+|\d{1,3}%)\s*)?\))$/i;
+
+/** A local change, undone and redone as a whole */
+type UndoElement = {
+    inserted: CollaborationSpan[];
+    deleted: CollaborationSpan[];
+    /** Time of the last change merged into this element */
+    time: number;
+    /** Clock of the first change of this element */
+    clock: number;
+};
+
+type Acknowledgement = {
+    version: CollaborationVersion;
+    retain?: number;
+};
+
+/**
+ * Undo and redo of the model are not part of the public API, but all undo and redo commands of the editor use them
+ */
+type UndoRedoModel = editor.ITextModel & {
+    undo(): void | Promise<void>;
+    redo(): void | Promise<void>;
+    canUndo(): boolean;
+    canRedo(): boolean;
+};
+
+/** Local changes typed within this time in milliseconds are undone together */
+const UNDO_CAPTURE_TIMEOUT = 500;
+
+/** Older local changes cannot be undone anymore, so the characters they deleted can be removed */
+const UNDO_STACK_SIZE = 100;
+
+/** Delay in milliseconds after a change before the participant acknowledges the changes it has seen */
+const ACKNOWLEDGE_DELAY = 1000;
+
+let lastSiteTime = 0;
+
+/**
+ * Site ids start with the creation time, so comparing them tells which participant joined first. Within one
+ * JavaScript context they are strictly ascending.
+ */
+const createSiteId = () => {
+    lastSiteTime = Math.max(Date.now(), lastSiteTime + 1);
+    return `${lastSiteTime.toString(36).padStart(9, '0')}${Math.random().toString(36).substring(2, 8)}`;
+};
+
+/**
+ * Binds a text model to a shared document. Local changes are sent to the provider and remote changes are applied
+ * to the model. Because remote changes are regular model changes, a languageclient attached to the model receives
+ * them like local changes. If an editor is given, the selections of all participants are exchanged and remote
+ * selections are rendered as decorations.
+ *
+ * Remote changes are not added to the undo stack of the model, which then no longer matches the content. Therefore
+ * the binding keeps its own undo stack of the local changes and takes over undo and redo of the model, which all undo
+ * and redo commands of the editor use, including the ones of the menus.
+ * All participants have to use the same end of line sequence, because offsets count it.
+ *
+ * A joining participant takes over the content of the participants that joined before, as long as it did not change
+ * the content itself. If several answer, the content of the one that joined first is used, so participants joining
+ * at the same time end up with the same content.
+ *
+ * Deleted characters are kept as tombstones until every participant has acknowledged their deletion and none of them
+ * can undo it anymore. A participant that disconnects without leaving keeps them until the binding is disposed.
+ */
+export class CollaborationBinding {
+
+    private model: editor.ITextModel;
+    private codeEditor?: editor.IStandaloneCodeEditor;
+    private config: CollaborationConfig;
+    private siteId: string;
+    private text: ReplicatedText;
+    private connection: CollaborationConnection | undefined;
+    private disposables: IDisposable[] = [];
+    private applyingChanges = false;
+    private localChangesSent = false;
+    /** Site id of the participant whose content was taken over */
+    private syncedFrom: string | undefined;
+    private undoStack: UndoElement[] = [];
+    private redoStack: UndoElement[] = [];
+    /** Latest acknowledgement of every remote participant, also of the ones that did not send one yet */
+    private acknowledgements: Map<string, Acknowledgement> = new Map();
+    private acknowledgeTimer: ReturnType<typeof setTimeout> | undefined;
+    private participants: Map<string, RemoteParticipant> = new Map();
+    private nextParticipantIndex = 0;
+    private styleElement: HTMLStyleElement | undefined;
+
+    constructor(model: editor.ITextModel, config: CollaborationConfig, codeEditor?: editor.IStandaloneCodeEditor) {
+        this.model = model;
+        this.codeEditor = codeEditor;
+        this.config = config;
+        this.siteId = createSiteId();
+        this.text = new ReplicatedText(this.siteId, model.getValue());
+    }
+
+    getSiteId(): string {
+        return this.siteId;
+    }
+
+    getDocumentId(): string {
+        return this.config.documentId ?? this.model.uri.toString();
+    }
+
+    /**
+     * Returns the site ids of all remote participants that have sent their selections
+     */
+    getParticipants(): string[] {
+        return Array.from(this.participants.keys());
+    }
+
+    async connect(): Promise<void> {
+        this.connection = await this.config.provider.connect(this.getDocumentId(), message => this.handleMessage(message));
+
+        this.disposables.push(this.model.onDidChangeContent(e => {
+            if (!this.applyingChanges) {
+                this.handleLocalChanges(e.changes);
+            }
+        }));
+
+        const model = this.model as UndoRedoModel;
+        const { undo, redo, canUndo, canRedo } = model;
+        model.undo = () => this.undo();
+        model.redo = () => this.redo();
+        model.canUndo = () => this.undoStack.length > 0;
+        model.canRedo = () => this.redoStack.length > 0;
+        this.disposables.push({
+            dispose: () => {
+                Object.assign(model, { undo, redo, canUndo, canRedo });
+            }
+        });
+
+        if (this.codeEditor) {
+            this.disposables.push(this.codeEditor.onDidChangeCursorSelection(() => this.sendSelections()));
+        }
+
+        // ask participants that are already connected for the current content
+        this.connection.send({ type: 'syncRequest', siteId: this.siteId });
+        this.sendSelections();
+    }
+
+    private handleLocalChanges(changes: editor.IModelContentChange[]) {
+        const previous = this.text.getVersion()[this.siteId] ?? 0;
+        // all offsets refer to the content before the changes, so they are recorded from the end to the start
+        const operations: CollaborationOperation[] = [];
+        const undoElement: UndoElement = { inserted: [], deleted: [], time: Date.now(), clock: previous + 1 };
+        for (const change of [...changes].sort((a, b) => b.rangeOffset - a.rangeOffset)) {
+            if (change.rangeLength > 0) {
+                const operation = this.text.deleteLocal(change.rangeOffset, change.rangeLength);
+                operations.push(operation);
+                undoElement.deleted.push(...operation.spans);
+            }
+            if (change.text.length > 0) {
+                const operation = this.text.insertLocal(change.rangeOffset, change.text);
+                operations.push(operation);
+                undoElement.inserted.push({ id: operation.id, length: operation.text.length });
+            }
+        }
+        if (operations.length === 0) {
+            return;
+        }
+        this.localChangesSent = true;
+        this.connection?.send({ type: 'edit', siteId: this.siteId, previous, operations });
+        this.scheduleAcknowledge();
+
+        const last = this.undoStack[this.undoStack.length - 1];
+        if (last !== undefined && this.redoStack.length === 0 && undoElement.time - last.time < UNDO_CAPTURE_TIMEOUT) {
+            last.inserted.push(...undoElement.inserted);
+            last.deleted.push(...undoElement.deleted);
+            last.time = undoElement.time;
+        } else {
+            this.undoStack.push(undoElement);
+            if (this.undoStack.length > UNDO_STACK_SIZE) {
+                this.undoStack.shift();
+            }
+        }
+        this.redoStack = [];
+    }
+
+    /**
+     * Reverts the last local change that was not yet undone. Changes of other participants are kept.
+     */
+    undo() {
+        const undoElement = this.undoStack.pop();
+        if (undoElement) {
+            this.revert(undoElement, false);
+            this.redoStack.push(undoElement);
+        }
+    }
+
+    /**
+     * Applies the last undone local change again.
+     */
+    redo() {
+        const undoElement = this.redoStack.pop();
+        if (undoElement) {
+            this.revert(undoElement, true);
+            // a new undo element is started by the next change
+            undoElement.time = 0;
+            this.undoStack.push(undoElement);
+        }
+    }
+
+    private revert(undoElement: UndoElement, redo: boolean) {
+        const previous = this.text.getVersion()[this.siteId] ?? 0;
+        const operations: CollaborationOperation[] = [];
+        const edits: TextEdit[] = [];
+        for (const [spans, visible] of [[undoElement.inserted, redo], [undoElement.deleted, !redo]] as Array<[CollaborationSpan[], boolean]>) {
+            if (spans.length > 0) {
+                const result = this.text.setVisible(spans, visible);
+                operations.push(result.operation);
+                edits.push(...result.edits);
+            }
+        }
+        this.connection?.send({ type: 'edit', siteId: this.siteId, previous, operations });
+        this.scheduleAcknowledge();
+        this.applyEdits(edits);
+
+        const last = edits[edits.length - 1];
+        if (last && this.codeEditor?.getModel() === this.model) {
+            this.codeEditor.setPosition(this.model.getPositionAt(last.offset + last.text.length));
+        }
+    }
+
+    private sendSelections() {
+        if (!this.codeEditor || this.codeEditor.getModel() !== this.model) {
+            return;
+        }
+        const selections = this.codeEditor.getSelections() ?? [];
+        this.connection?.send({
+            type: 'cursor',
+            siteId: this.siteId,
+            userName: this.config.userName,
+            color: this.config.color,
+            selections: selections.map(selection => ({
+                anchor: this.model.getOffsetAt(selection.getSelectionStart()),
+                head: this.model.getOffsetAt(selection.getPosition())
+            }))
+        });
+    }
+
+    private handleMessage(message: CollaborationMessage) {
+        if (message.siteId === this.siteId) {
+            return;
+        }
+        if (message.type !== 'leave' && !this.acknowledgements.has(message.siteId)) {
+            // tombstones are kept until the new participant acknowledged their deletion
+            this.acknowledgements.set(message.siteId, { version: {} });
+        }
+
+        switch (message.type) {
+            case 'edit':
+                this.applyEdits(this.text.apply(message));
+                this.scheduleAcknowledge();
+                break;
+            case 'cursor':
+                this.updateRemoteSelections(message.siteId, message.selections, message.userName, message.color);
+                break;
+            case 'syncRequest':
+                this.connection?.send({ type: 'sync', siteId: this.siteId, target: message.siteId, state: this.text.getState() });
+                this.sendSelections();
+                break;
+            case 'sync':
+                // only answers of participants that joined earlier are used and only if nothing was typed before
+                if (message.target === this.siteId && !this.localChangesSent && message.siteId < (this.syncedFrom ?? this.siteId)) {
+                    this.syncedFrom = message.siteId;
+                    this.text.reset(message.state);
+                    const content = this.text.getText();
+                    if (this.model.getValue() !== content) {
+                        this.applyEdits([{ offset: 0, length: this.model.getValueLength(), text: content }]);
+                    }
+                    this.scheduleAcknowledge();
+                }
+                break;
+            case 'acknowledge':
+                this.acknowledgements.set(message.siteId, { version: message.version, retain: message.retain });
+                this.collectTombstones();
+                break;
+            case 'leave':
+                this.acknowledgements.delete(message.siteId);
+                this.removeParticipant(message.siteId);
+                break;
+        }
+    }
+
+    private scheduleAcknowledge() {
+        if (this.acknowledgeTimer === undefined) {
+            this.acknowledgeTimer = setTimeout(() => {
+                this.acknowledgeTimer = undefined;
+                this.connection?.send({ type: 'acknowledge', siteId: this.siteId, version: this.text.getVersion(), retain: this.getRetainedClock() });
+                this.collectTombstones();
+            }, ACKNOWLEDGE_DELAY);
+        }
+    }
+
+    /**
+     * Lowest clock of the local changes that can still be undone or redone
+     */
+    private getRetainedClock(): number | undefined {
+        const clocks = [...this.undoStack, ...this.redoStack].map(undoElement => undoElement.clock);
+        return clocks.length > 0 ? Math.min(...clocks) : undefined;
+    }
+
+    /**
+     * Removes the tombstones whose deletion all participants have acknowledged and that none of them can restore.
+     */
+    private collectTombstones() {
+        const version = this.text.getVersion();
+        const acknowledgements = Array.from(this.acknowledgements.entries());
+        // changes a participant made before its acknowledgement may still refer to the tombstones
+        if (acknowledgements.some(([siteId, acknowledgement]) => (version[siteId] ?? 0) < (acknowledgement.version[siteId] ?? 0))) {
+            return;
+        }
+        const retain = Math.min(this.getRetainedClock() ?? Infinity, ...acknowledgements.map(([, acknowledgement]) => acknowledgement.retain ?? Infinity));
+        this.text.collect(stamp => stamp.clock < retain &&
+            acknowledgements.every(([, acknowledgement]) => (acknowledgement.version[stamp.siteId] ?? 0) >= stamp.clock));
+    }
+
+    /**
+     * Applies the edits one after the other without adding them to the undo stack of the model.
+     */
+    private applyEdits(edits: TextEdit[]) {
+        this.applyingChanges = true;
+        try {
+            for (const edit of edits) {
+                const start = this.model.getPositionAt(edit.offset);
+                const end = this.model.getPositionAt(edit.offset + edit.length);
+                this.model.applyEdits([{ range: new Range(start.lineNumber, start.column, end.lineNumber, end.column), text: edit.text }]);
+            }
+        } finally {
+            this.applyingChanges = false;
+        }
+    }
+
+    private updateRemoteSelections(siteId: string, selections: CollaborationSelection[], userName?: string, color?: string) {
+        if (!this.codeEditor || this.codeEditor.getModel() !== this.model) {
+            return;
+        }
+
+        let participant = this.participants.get(siteId);
+        if (!participant) {
+            const index = this.nextParticipantIndex++;
+            participant = {
+                index,
+                color: defaultColors[index % defaultColors.length],
+                decorations: []
+            };
+            this.participants.set(siteId, participant);
+        }
+        participant.userName = userName;
+        if (color !== undefined && colorPattern.test(color)) {
+            participant.color = color;
+        }
+        const cssClass = this.updateParticipantStyles(participant);
+
+        const decorations: editor.IModelDeltaDecoration[] = [];
+        for (const selection of selections) {
+            const start = this.model.getPositionAt(Math.min(selection.anchor, selection.head));
+            const end = this.model.getPositionAt(Math.max(selection.anchor, selection.head));
+            const head = this.model.getPositionAt(selection.head);
+            if (!start.equals(end)) {
+                decorations.push({
+                    range: new Range(start.lineNumber, start.column, end.lineNumber, end.column),
+                    options: {
+                        className: `${cssClass}-selection`,
+                        stickiness: editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+                    }
+                });
+            }
+            decorations.push({
+                range: new Range(head.lineNumber, head.column, head.lineNumber, head.column),
+                options: {
+                    beforeContentClassName: `${cssClass}-cursor`,
+                    hoverMessage: userName ? { value: userName } : undefined,
+                    showIfCollapsed: true,
+                    stickiness: editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+                }
+            });
+        }
+        participant.decorations = this.codeEditor.deltaDecorations(participant.decorations, decorations);
+    }
+
+    /**
+     * The site ids of remote participants are not used in the class names, as they are not validated. The local site
+     * id keeps the names of different bindings on the same page apart.
+     */
+    private getParticipantClass(participant: RemoteParticipant) {
+        return `monaco-collaboration-${this.siteId}-${participant.index}`;
+    }
+
+    private updateParticipantStyles(participant: RemoteParticipant) {
+        if (!this.styleElement) {
+            this.styleElement = document.createElement('style');
+            document.head.appendChild(this.styleElement);
+        }
+        this.styleElement.textContent = Array.from(this.participants.values()).map(other => {
+            const name = this.getParticipantClass(other);
+            return `.${name}-selection { background-color: ${other.color}; opacity: 0.3; }\n` +
+                `.${name}-cursor { border-left: 2px solid ${other.color}; margin-left: -1px; }`;
+        }).join('\n');
+        return this.getParticipantClass(participant);
+    }
+
+    private removeParticipant(siteId: string) {
+        const participant = this.participants.get(siteId);
+        if (participant) {
+            this.codeEditor?.deltaDecorations(participant.decorations, []);
+            this.participants.delete(siteId);
+        }
+    }
+
+    dispose() {
+        clearTimeout(this.acknowledgeTimer);
+        this.acknowledgeTimer = undefined;
+        this.connection?.send({ type: 'leave', siteId: this.siteId });
+        this.connection?.dispose();
+        this.connection = undefined;
+
+        for (const siteId of Array.from(this.participants.keys())) {
+            this.removeParticipant(siteId);
+        }
+        this.styleElement?.remove();
+        this.styleElement = undefined;
+
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
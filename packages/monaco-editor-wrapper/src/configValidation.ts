@@ -0,0 +1,258 @@
+import { DEFAULT_LANGUAGE_CLIENT_NAME, LanguageClientConfig, WebSocketConnectOptions, WebSocketReconnectOptions } from './languageClientWrapper.js';
+import type { UserConfig } from './wrapper.js';
+
+export type ConfigDiagnosticSeverity = 'error' | 'warning';
+
+export type ConfigDiagnostic = {
+    severity: ConfigDiagnosticSeverity;
+    /** Dot separated path of the offending property, e.g. "languageClientConfig.options.host" */
+    path: string;
+    message: string;
+};
+
+const classicOnlyProperties = ['theme', 'automaticLayout', 'editorOptions', 'diffEditorOptions', 'languageExtensionConfig', 'languageDef', 'themeData'];
+const vscodeApiOnlyProperties = ['extension', 'extensionFilesOrContents', 'userConfiguration'];
+const languageClientConfigTypes = ['WebSocket', 'WebSocketUrl', 'WorkerConfig', 'WorkerDirect', 'SharedWorkerConfig', 'MessagePort', 'InProcess'];
+
+class ConfigDiagnostics {
+
+    readonly diagnostics: ConfigDiagnostic[] = [];
+
+    error(path: string, message: string) {
+        this.diagnostics.push({ severity: 'error', path, message });
+    }
+
+    warning(path: string, message: string) {
+        this.diagnostics.push({ severity: 'warning', path, message });
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null;
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+    return typeof value === 'string' && value.trim().length > 0;
+};
+
+/**
+ * Checks the user config before anything is created. Errors make start fail, warnings point to properties
+ * that are ignored or likely not meant as configured.
+ */
+export const validateUserConfig = (userConfig: UserConfig): ConfigDiagnostic[] => {
+    const result = new ConfigDiagnostics();
+    if (!isObject(userConfig)) {
+        result.error('', 'The user config is missing.');
+        return result.diagnostics;
+    }
+
+    if (!userConfig.htmlElement) {
+        result.error('htmlElement', 'No html element is given to render the editor into.');
+    }
+    validateEditorAppConfig(userConfig, result);
+
+    const names = new Set<string>();
+    if (userConfig.languageClientConfig !== undefined) {
+        validateLanguageClientConfig(userConfig.languageClientConfig, 'languageClientConfig', result);
+        names.add(userConfig.languageClientConfig?.options?.name ?? DEFAULT_LANGUAGE_CLIENT_NAME);
+    }
+    for (const [name, languageClientConfig] of Object.entries(userConfig.languageClientConfigs ?? {})) {
+        const path = `languageClientConfigs.${name}`;
+        if (names.has(name)) {
+            result.error(path, `Language client name "${name}" is used more than once.`);
+        }
+        names.add(name);
+        validateLanguageClientConfig(languageClientConfig, path, result);
+    }
+    return result.diagnostics;
+};
+
+const validateEditorAppConfig = (userConfig: UserConfig, result: ConfigDiagnostics) => {
+    if (!isObject(userConfig.wrapperConfig)) {
+        result.error('wrapperConfig', 'The wrapper config is missing.');
+        return;
+    }
+    const path = 'wrapperConfig.editorAppConfig';
+    const editorAppConfig = userConfig.wrapperConfig.editorAppConfig;
+    if (!isObject(editorAppConfig)) {
+        result.error(path, 'The editor app config is missing.');
+        return;
+    }
+
+    if (editorAppConfig.$type !== 'classic' && editorAppConfig.$type !== 'vscodeApi') {
+        result.error(`${path}.$type`, `Unknown editor app type "${(editorAppConfig as { $type: unknown }).$type}". Use "classic" or "vscodeApi".`);
+    }
+    if (!isNonEmptyString(editorAppConfig.languageId)) {
+        result.error(`${path}.languageId`, 'The language id is missing.');
+    }
+    if (typeof editorAppConfig.code !== 'string') {
+        result.error(`${path}.code`, 'The code has to be a string.');
+    }
+    if (editorAppConfig.useDiffEditor && !editorAppConfig.codeOriginal) {
+        result.error(`${path}.codeOriginal`, 'Use diff editor was used without a valid config.');
+    }
+    if (editorAppConfig.useDiffEditor && editorAppConfig.mergeEditorConfig) {
+        result.error(`${path}.mergeEditorConfig`, 'Diff editor and merge editor cannot be used at the same time.');
+    }
+    if (editorAppConfig.mergeEditorConfig) {
+        for (const input of ['base', 'ours', 'theirs'] as const) {
+            if (typeof editorAppConfig.mergeEditorConfig[input]?.code !== 'string') {
+                result.error(`${path}.mergeEditorConfig.${input}.code`, `The ${input} code of the merge editor has to be a string.`);
+            }
+        }
+    }
+
+    const ignoredProperties = editorAppConfig.$type === 'vscodeApi' ? classicOnlyProperties : vscodeApiOnlyProperties;
+    for (const property of ignoredProperties) {
+        if ((editorAppConfig as Record<string, unknown>)[property] !== undefined) {
+            result.warning(`${path}.${property}`, `"${property}" is ignored by the ${editorAppConfig.$type} editor app.`);
+        }
+    }
+};
+
+const validateLanguageClientConfig = (languageClientConfig: LanguageClientConfig, path: string, result: ConfigDiagnostics) => {
+    const options = languageClientConfig?.options;
+    if (!isObject(options)) {
+        result.error(`${path}.options`, 'The languageclient options are missing.');
+        return;
+    }
+    const optionsPath = `${path}.options`;
+
+    if (!languageClientConfigTypes.includes(options.$type)) {
+        result.error(`${optionsPath}.$type`, `Unknown languageclient type "${options.$type}". Use one of ${languageClientConfigTypes.join(', ')}.`);
+        return;
+    }
+
+    switch (options.$type) {
+        case 'WebSocket':
+            if (!isNonEmptyString(options.host)) {
+                result.error(`${optionsPath}.host`, 'The host of the web socket is missing.');
+            } else if (options.host.includes('://') || options.host.includes('/')) {
+                result.error(`${optionsPath}.host`, `The host "${options.host}" must not contain a protocol or a path. Use "secured" and "path" instead.`);
+            }
+            if (options.port !== undefined && (!Number.isInteger(options.port) || options.port < 1 || options.port > 65535)) {
+                result.error(`${optionsPath}.port`, `The port ${options.port} is not a valid port number.`);
+            }
+            if (options.path?.startsWith('/')) {
+                result.warning(`${optionsPath}.path`, `The path "${options.path}" starts with a slash, the url will contain a double slash.`);
+            }
+            validateReconnectOptions(options.reconnectOptions, `${optionsPath}.reconnectOptions`, result);
+            validateConnectOptions(options, optionsPath, result);
+            break;
+        case 'WebSocketUrl':
+            if (!isNonEmptyString(options.url)) {
+                result.error(`${optionsPath}.url`, 'The url of the web socket is missing.');
+            } else if (!options.url.startsWith('ws://') && !options.url.startsWith('wss://')) {
+                result.error(`${optionsPath}.url`, `This is not a proper websocket url: ${options.url}`);
+            }
+            validateReconnectOptions(options.reconnectOptions, `${optionsPath}.reconnectOptions`, result);
+            validateConnectOptions(options, optionsPath, result);
+            break;
+        case 'WorkerConfig':
+        case 'SharedWorkerConfig':
+            validateWorkerUrl(options.url as unknown, `${optionsPath}.url`, result);
+            if (options.type !== 'classic' && options.type !== 'module') {
+                result.error(`${optionsPath}.type`, `Unknown worker type "${options.type}". Use "classic" or "module".`);
+            }
+            break;
+        case 'WorkerDirect':
+            if (!options.worker) {
+                result.error(`${optionsPath}.worker`, 'The worker is missing.');
+            }
+            break;
+        case 'MessagePort':
+            if (!options.port) {
+                result.error(`${optionsPath}.port`, 'The message port or the factory creating it is missing.');
+            }
+            break;
+        case 'InProcess':
+            if (typeof options.createMessageTransports !== 'function') {
+                result.error(`${optionsPath}.createMessageTransports`, 'A function creating the message transports is required.');
+            }
+            break;
+    }
+
+    if (languageClientConfig.startTimeout !== undefined && !(languageClientConfig.startTimeout > 0)) {
+        result.error(`${path}.startTimeout`, 'The start timeout has to be a positive number of milliseconds.');
+    }
+    if (languageClientConfig.documentSelector !== undefined) {
+        if (!Array.isArray(languageClientConfig.documentSelector)) {
+            result.error(`${path}.documentSelector`, 'The document selector has to be an array.');
+        } else if (languageClientConfig.documentSelector.length === 0) {
+            result.warning(`${path}.documentSelector`, 'The document selector is empty, no document is synchronized with the server.');
+        } else {
+            languageClientConfig.documentSelector.forEach((filter, index) => validateDocumentFilter(filter, `${path}.documentSelector[${index}]`, result));
+        }
+    }
+};
+
+const validateDocumentFilter = (filter: unknown, path: string, result: ConfigDiagnostics) => {
+    if (typeof filter === 'string') {
+        if (filter.length === 0) {
+            result.error(path, 'The language id is empty.');
+        }
+    } else if (typeof filter !== 'object' || filter === null) {
+        result.error(path, 'An entry of the document selector has to be a language id or a filter.');
+    } else if (!['language', 'scheme', 'pattern', 'notebook'].some(key => key in filter)) {
+        result.error(path, 'A document filter needs at least a language, scheme or pattern.');
+    } else if ('pattern' in filter && typeof filter.pattern !== 'string') {
+        result.error(`${path}.pattern`, 'Only glob patterns given as string are supported.');
+    }
+};
+
+const validateWorkerUrl = (url: unknown, path: string, result: ConfigDiagnostics) => {
+    if (url instanceof URL) {
+        return;
+    }
+    if (!isNonEmptyString(url)) {
+        result.error(path, 'The worker url is missing.');
+        return;
+    }
+    try {
+        new URL(url);
+        result.warning(path, 'The worker url should be a URL object.');
+    } catch {
+        result.error(path, `The relative worker url "${url}" is resolved against the page and not against the module. Use new URL('${url}', import.meta.url) instead.`);
+    }
+};
+
+const validateConnectOptions = (connectOptions: WebSocketConnectOptions, path: string, result: ConfigDiagnostics) => {
+    if (connectOptions.queryParams !== undefined) {
+        if (!isObject(connectOptions.queryParams)) {
+            result.error(`${path}.queryParams`, 'The query parameters have to be an object.');
+        } else if (connectOptions.tokenProvider && Object.keys(connectOptions.queryParams).includes(connectOptions.tokenQueryParam ?? 'access_token')) {
+            result.warning(`${path}.queryParams`, `The query parameter "${connectOptions.tokenQueryParam ?? 'access_token'}" is replaced by the token.`);
+        }
+    }
+    if (connectOptions.tokenProvider !== undefined && typeof connectOptions.tokenProvider !== 'function') {
+        result.error(`${path}.tokenProvider`, 'The token provider has to be a function.');
+    }
+    if (connectOptions.authFailureCloseCodes !== undefined && !(Array.isArray(connectOptions.authFailureCloseCodes) &&
+        connectOptions.authFailureCloseCodes.every(code => Number.isInteger(code) && code >= 1000 && code <= 4999))) {
+        result.error(`${path}.authFailureCloseCodes`, 'The auth failure close codes have to be web socket close codes between 1000 and 4999.');
+    }
+};
+
+const validateReconnectOptions = (reconnectOptions: WebSocketReconnectOptions | undefined, path: string, result: ConfigDiagnostics) => {
+    if (!reconnectOptions) {
+        return;
+    }
+    if (reconnectOptions.maxAttempts !== undefined && !(Number.isInteger(reconnectOptions.maxAttempts) && reconnectOptions.maxAttempts > 0)) {
+        result.error(`${path}.maxAttempts`, 'The maximum number of attempts has to be a positive integer.');
+    }
+    for (const property of ['initialDelay', 'maxDelay'] as const) {
+        const value = reconnectOptions[property];
+        if (value !== undefined && !(value >= 0)) {
+            result.error(`${path}.${property}`, `"${property}" must not be negative.`);
+        }
+    }
+    if (reconnectOptions.multiplier !== undefined && !(reconnectOptions.multiplier >= 1)) {
+        result.error(`${path}.multiplier`, 'The multiplier has to be at least 1.');
+    }
+    if (reconnectOptions.jitter !== undefined && !(reconnectOptions.jitter >= 0 && reconnectOptions.jitter <= 1)) {
+        result.error(`${path}.jitter`, 'The jitter has to be between 0 and 1.');
+    }
+    if (reconnectOptions.initialDelay !== undefined && reconnectOptions.maxDelay !== undefined && reconnectOptions.initialDelay > reconnectOptions.maxDelay) {
+        result.warning(`${path}.initialDelay`, 'The initial delay is larger than the maximum delay.');
+    }
+};
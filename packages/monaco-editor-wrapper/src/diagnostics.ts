@@ -0,0 +1,97 @@
+import { editor, Emitter, IDisposable, MarkerSeverity, Uri } from 'monaco-editor';
+
+export type DiagnosticsChangeEvent = {
+    /** Uris of the models whose markers changed */
+    uris: string[];
+};
+
+export type DiagnosticsFilter = {
+    /** Only markers with one of the given severities */
+    severities?: MarkerSeverity[];
+    /** Only markers of the given owner, e.g. the name of the languageclient's diagnostic collection */
+    owner?: string;
+};
+
+export type DiagnosticCounts = {
+    errors: number;
+    warnings: number;
+    infos: number;
+    hints: number;
+    total: number;
+};
+
+const compareMarkers = (a: editor.IMarker, b: editor.IMarker) => {
+    return a.startLineNumber - b.startLineNumber || a.startColumn - b.startColumn || b.severity - a.severity;
+};
+
+/**
+ * Collects the markers of the models of one wrapper, no matter if they were produced by a languageclient,
+ * a monarch based validation or any other owner.
+ */
+export class DiagnosticsTracker {
+
+    private getUris: () => string[];
+    private markerSubscription: IDisposable | undefined;
+    private onDidChangeDiagnosticsEmitter = new Emitter<DiagnosticsChangeEvent>();
+
+    readonly onDidChangeDiagnostics = this.onDidChangeDiagnosticsEmitter.event;
+
+    /**
+     * @param getUris Returns the uris of all models whose markers are collected
+     */
+    constructor(getUris: () => string[]) {
+        this.getUris = getUris;
+    }
+
+    start() {
+        if (this.markerSubscription) {
+            return;
+        }
+        this.markerSubscription = editor.onDidChangeMarkers(resources => {
+            const uris = this.getUris();
+            const changed = resources.map(resource => resource.toString()).filter(uri => uris.includes(uri));
+            if (changed.length > 0) {
+                this.onDidChangeDiagnosticsEmitter.fire({ uris: changed });
+            }
+        });
+    }
+
+    /**
+     * Returns the markers of the model with the given uri or of all models, sorted by model and position.
+     */
+    getDiagnostics(uri?: string, filter?: DiagnosticsFilter): editor.IMarker[] {
+        const uris = uri !== undefined ? [Uri.parse(uri).toString()] : this.getUris();
+        return uris.flatMap(key => {
+            return editor.getModelMarkers({ resource: Uri.parse(key), owner: filter?.owner })
+                .filter(marker => filter?.severities?.includes(marker.severity) ?? true)
+                .sort(compareMarkers);
+        });
+    }
+
+    getDiagnosticCounts(uri?: string, filter?: DiagnosticsFilter): DiagnosticCounts {
+        const counts: DiagnosticCounts = { errors: 0, warnings: 0, infos: 0, hints: 0, total: 0 };
+        for (const marker of this.getDiagnostics(uri, filter)) {
+            switch (marker.severity) {
+                case MarkerSeverity.Error:
+                    counts.errors++;
+                    break;
+                case MarkerSeverity.Warning:
+                    counts.warnings++;
+                    break;
+                case MarkerSeverity.Info:
+                    counts.infos++;
+                    break;
+                case MarkerSeverity.Hint:
+                    counts.hints++;
+                    break;
+            }
+            counts.total++;
+        }
+        return counts;
+    }
+
+    dispose() {
+        this.markerSubscription?.dispose();
+        this.markerSubscription = undefined;
+    }
+}
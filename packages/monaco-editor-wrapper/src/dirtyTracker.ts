@@ -0,0 +1,91 @@
+import { editor, Emitter, IDisposable } from 'monaco-editor';
+
+export type DirtyChangeEvent = {
+    uri: string;
+    dirty: boolean;
+};
+
+type TrackedModel = {
+    model: editor.ITextModel;
+    savedVersionId: number;
+    dirty: boolean;
+    disposables: IDisposable[];
+};
+
+/**
+ * Tracks the saved state of models. A model is dirty if its alternative version id differs from the one at the
+ * last save, so undoing all changes made after a save makes the model clean again.
+ */
+export class DirtyStateTracker {
+
+    private trackedModels: Map<string, TrackedModel> = new Map();
+    private onDidChangeDirtyEmitter = new Emitter<DirtyChangeEvent>();
+
+    readonly onDidChangeDirty = this.onDidChangeDirtyEmitter.event;
+
+    /**
+     * Starts tracking the model with its current content as saved state.
+     * Tracking a new model instance with the uri of an already tracked model replaces the old one.
+     */
+    track(model: editor.ITextModel) {
+        const uri = model.uri.toString();
+        const tracked = this.trackedModels.get(uri);
+        if (tracked?.model === model) {
+            return;
+        }
+        this.untrack(uri);
+
+        const trackedModel: TrackedModel = {
+            model,
+            savedVersionId: model.getAlternativeVersionId(),
+            dirty: false,
+            disposables: []
+        };
+        trackedModel.disposables.push(model.onDidChangeContent(() => this.updateDirty(trackedModel)));
+        trackedModel.disposables.push(model.onWillDispose(() => this.untrack(uri)));
+        this.trackedModels.set(uri, trackedModel);
+    }
+
+    untrack(uri: string) {
+        const tracked = this.trackedModels.get(uri);
+        if (tracked) {
+            tracked.disposables.forEach(disposable => disposable.dispose());
+            this.trackedModels.delete(uri);
+        }
+    }
+
+    isDirty(uri: string): boolean {
+        return this.trackedModels.get(uri)?.dirty ?? false;
+    }
+
+    getDirtyUris(): string[] {
+        return Array.from(this.trackedModels.entries()).filter(([, tracked]) => tracked.dirty).map(([uri]) => uri);
+    }
+
+    /**
+     * Marks the model as saved.
+     *
+     * @param versionId Alternative version id of the saved content. Defaults to the current version of the model.
+     */
+    markSaved(uri: string, versionId?: number) {
+        const tracked = this.trackedModels.get(uri);
+        if (tracked) {
+            tracked.savedVersionId = versionId ?? tracked.model.getAlternativeVersionId();
+            this.updateDirty(tracked);
+        }
+    }
+
+    private updateDirty(tracked: TrackedModel) {
+        const dirty = tracked.model.getAlternativeVersionId() !== tracked.savedVersionId;
+        if (dirty !== tracked.dirty) {
+            tracked.dirty = dirty;
+            this.onDidChangeDirtyEmitter.fire({ uri: tracked.model.uri.toString(), dirty });
+        }
+    }
+
+    dispose() {
+        for (const uri of Array.from(this.trackedModels.keys())) {
+            this.untrack(uri);
+        }
+    }
+}
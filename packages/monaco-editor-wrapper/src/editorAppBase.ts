@@ -4,6 +4,9 @@ import { IReference } from 'vscode/service-override/editor';
 import { ModelUpdate, UserConfig, WrapperConfig } from './wrapper.js';
 import { EditorAppConfigClassic } from './editorAppClassic.js';
 import { EditorAppConfigVscodeApi } from './editorAppVscodeApi.js';
+import { Logger } from './logger.js';
+import { MergeConflictController, MergeEditorConfig, MergeInput, mergeThreeWay } from './merge.js';
+import { WrapperConfigError, WrapperStateError } from './errors.js';
 
 export type VscodeUserConfiguration = {
     json?: string;
@@ -16,10 +19,22 @@ export type EditorAppBaseConfig = {
     useDiffEditor: boolean;
     codeOriginal?: string;
     codeOriginalUri?: string;
+    /** Shows the merge result of base, ours and theirs with conflict markers in the regular editor */
+    mergeEditorConfig?: MergeEditorConfig;
 }
 
 export type EditorAppType = 'vscodeApi' | 'classic';
 
+export type EditorMode = 'code' | 'diff' | 'merge';
+
+export type EditorModeOptions = {
+    /** Content of the original model. Defaults to the configured codeOriginal */
+    codeOriginal?: string;
+    codeOriginalUri?: string;
+    /** Inputs merged into the main model when switching to the merge editor. Defaults to the configured mergeEditorConfig */
+    mergeEditorConfig?: MergeEditorConfig;
+};
+
 /**
  * This is the base class for both Monaco Ediotor Apps:
  * - EditorAppClassic
@@ -30,15 +45,25 @@ export type EditorAppType = 'vscodeApi' | 'classic';
 export abstract class EditorAppBase {
 
     private id: string;
+    protected logger: Logger;
 
     private editor: editor.IStandaloneCodeEditor | undefined;
     private diffEditor: editor.IStandaloneDiffEditor | undefined;
+    private container: HTMLElement | undefined;
 
     private modelRef: IReference<ITextFileEditorModel> | undefined;
     private modelOriginalRef: IReference<ITextFileEditorModel> | undefined;
 
-    constructor(id: string) {
+    // additional models opened in the same editor (key: uri)
+    private workspaceModelRefs: Map<string, IReference<ITextFileEditorModel>> = new Map();
+    private viewStates: Map<string, editor.ICodeEditorViewState> = new Map();
+    private activeModelUri: string | undefined;
+
+    private mergeConflictController: MergeConflictController | undefined;
+
+    constructor(id: string, logger?: Logger) {
         this.id = id;
+        this.logger = logger ?? new Logger(id);
     }
 
     protected buildConfig(userConfig: UserConfig) {
@@ -46,10 +71,12 @@ export abstract class EditorAppBase {
         return {
             languageId: userAppConfig.languageId,
             code: userAppConfig.code ?? '',
-            codeOriginal: userAppConfig.codeOriginal ?? '',
+            // undefined if not configured, so switching to the diff editor can detect the missing original
+            codeOriginal: userAppConfig.codeOriginal,
             useDiffEditor: userAppConfig.useDiffEditor === true,
             codeUri: userAppConfig.codeUri ?? undefined,
             codeOriginalUri: userAppConfig.codeOriginalUri ?? undefined,
+            mergeEditorConfig: userAppConfig.mergeEditorConfig ?? undefined
         };
     }
 
@@ -66,16 +93,172 @@ export abstract class EditorAppBase {
     }
 
     protected async createEditor(container: HTMLElement, editorOptions?: editor.IStandaloneEditorConstructionOptions): Promise<void> {
+        this.container = container;
+        const mergeEditorConfig = this.getConfig().mergeEditorConfig;
+        if (mergeEditorConfig) {
+            this.getConfig().code = this.merge(mergeEditorConfig);
+        }
+
         this.editor = createConfiguredEditor(container!, editorOptions);
         await this.updateEditorModel();
+
+        if (mergeEditorConfig) {
+            await this.createMergeModels(mergeEditorConfig);
+            this.mergeConflictController = new MergeConflictController(this.editor, this.modelRef!.object.textEditorModel!);
+        }
+    }
+
+    private merge(mergeEditorConfig: MergeEditorConfig): string {
+        return mergeThreeWay(mergeEditorConfig.base.code, mergeEditorConfig.ours.code, mergeEditorConfig.theirs.code,
+            mergeEditorConfig.ours.label, mergeEditorConfig.theirs.label).text;
+    }
+
+    /**
+     * The merge inputs are opened as additional models, so they can be shown with switchModel.
+     */
+    private async createMergeModels(mergeEditorConfig: MergeEditorConfig) {
+        const languageId = this.getConfig().languageId;
+        const inputs: Array<[MergeInput, string]> = [[mergeEditorConfig.base, 'Base'], [mergeEditorConfig.ours, 'Ours'], [mergeEditorConfig.theirs, 'Theirs']];
+        for (const [input, name] of inputs) {
+            const model = await this.openModel(input.uri ?? `/tmp/model${name}${this.id}.${languageId}`, input.code);
+            // the models are still open if the merge editor was shown before
+            if (model.getValue() !== input.code) {
+                model.setValue(input.code);
+            }
+        }
+    }
+
+    getMergeConflictController(): MergeConflictController | undefined {
+        return this.mergeConflictController;
     }
 
     protected async createDiffEditor(container: HTMLElement, diffEditorOptions?: editor.IStandaloneDiffEditorConstructionOptions): Promise<void> {
+        this.container = container;
+        const mergeEditorConfig = this.getConfig().mergeEditorConfig;
+        if (mergeEditorConfig) {
+            // the merge result is compared with the original, the conflicts are shown after switching to the merge editor
+            this.getConfig().code = this.merge(mergeEditorConfig);
+        }
+
         this.diffEditor = createConfiguredDiffEditor(container!, diffEditorOptions);
         await this.updateDiffEditorModel();
+
+        if (mergeEditorConfig) {
+            await this.createMergeModels(mergeEditorConfig);
+        }
+    }
+
+    /**
+     * Options used when the regular editor is re-created by setEditorMode
+     */
+    protected getEditorOptions(): editor.IStandaloneEditorConstructionOptions | undefined {
+        return undefined;
+    }
+
+    /**
+     * Options used when the diff editor is re-created by setEditorMode
+     */
+    protected getDiffEditorOptions(): editor.IStandaloneDiffEditorConstructionOptions | undefined {
+        return undefined;
+    }
+
+    /**
+     * The merge editor is the regular editor showing the conflicts of the configured mergeEditorConfig.
+     */
+    getEditorMode(): EditorMode {
+        const config = this.getConfig();
+        if (config.useDiffEditor) {
+            return 'diff';
+        }
+        return config.mergeEditorConfig ? 'merge' : 'code';
+    }
+
+    /**
+     * Switches between the regular, the diff and the merge editor. Only the editor widget is replaced: The main model
+     * is kept with its content, undo history and cursor, so an attached languageclient is not affected.
+     * Additional models stay open, but the main model is shown.
+     * Switching to the merge editor with a mergeEditorConfig in the mode options replaces the content of the main
+     * model by the merge result, otherwise the conflicts remaining in the current content are shown.
+     */
+    async setEditorMode(mode: EditorMode, modeOptions?: EditorModeOptions): Promise<void> {
+        const config = this.getConfig();
+        if (!this.container || !this.modelRef) {
+            return Promise.reject(new WrapperStateError('EDITOR_NOT_STARTED', 'You cannot change the editor mode, because no editor was created yet.'));
+        }
+        if (this.getEditorMode() === mode && modeOptions?.mergeEditorConfig === undefined) {
+            return;
+        }
+
+        if (mode === 'diff') {
+            const codeOriginal = modeOptions?.codeOriginal ?? config.codeOriginal;
+            if (codeOriginal === undefined) {
+                return Promise.reject(new WrapperConfigError('CONFIG_MISSING', 'You cannot switch to the diff editor without the original code.'));
+            }
+            config.codeOriginal = codeOriginal;
+            config.codeOriginalUri = modeOptions?.codeOriginalUri ?? config.codeOriginalUri;
+
+            if (this.activeModelUri !== undefined) {
+                await this.switchModel(this.getEditorUri('code').toString());
+            }
+            const viewState = this.editor?.saveViewState();
+            // the controller must not outlive the editor it was created for
+            this.mergeConflictController?.dispose();
+            this.mergeConflictController = undefined;
+            this.editor?.dispose();
+            this.editor = undefined;
+
+            this.modelOriginalRef = await createModelReference(this.getEditorUri('codeOriginal'), codeOriginal) as unknown as IReference<ITextFileEditorModel>;
+            this.modelOriginalRef.object.setLanguageId(config.languageId);
+            this.diffEditor = createConfiguredDiffEditor(this.container, this.getDiffEditorOptions());
+            this.diffEditor.setModel({
+                original: this.modelOriginalRef.object.textEditorModel!,
+                modified: this.modelRef.object.textEditorModel!
+            });
+            if (viewState) {
+                this.diffEditor.getModifiedEditor().restoreViewState(viewState);
+            }
+        } else {
+            const mergeEditorConfig = modeOptions?.mergeEditorConfig ?? config.mergeEditorConfig;
+            if (mode === 'merge' && !mergeEditorConfig) {
+                return Promise.reject(new WrapperConfigError('CONFIG_MISSING', 'You cannot switch to the merge editor without a merge editor configuration.'));
+            }
+
+            if (this.diffEditor) {
+                const viewState = this.diffEditor.getModifiedEditor().saveViewState();
+                this.diffEditor.dispose();
+                this.diffEditor = undefined;
+                this.modelOriginalRef?.dispose();
+                this.modelOriginalRef = undefined;
+
+                this.editor = createConfiguredEditor(this.container, this.getEditorOptions());
+                this.editor.setModel(this.modelRef.object.textEditorModel);
+                if (viewState) {
+                    this.editor.restoreViewState(viewState);
+                }
+            }
+            this.mergeConflictController?.dispose();
+            this.mergeConflictController = undefined;
+
+            if (mode === 'merge') {
+                const model = this.modelRef.object.textEditorModel!;
+                if (modeOptions?.mergeEditorConfig) {
+                    // an edit operation instead of setValue keeps the previous content on the undo stack
+                    model.pushEditOperations([], [{ range: model.getFullModelRange(), text: this.merge(mergeEditorConfig!) }], () => null);
+                    await this.createMergeModels(mergeEditorConfig!);
+                }
+                config.mergeEditorConfig = mergeEditorConfig;
+                this.mergeConflictController = new MergeConflictController(this.editor!, model);
+            } else {
+                config.mergeEditorConfig = undefined;
+            }
+        }
+        config.useDiffEditor = mode === 'diff';
     }
 
     protected disposeEditor() {
+        this.mergeConflictController?.dispose();
+        this.mergeConflictController = undefined;
+        this.disposeWorkspaceModels();
         if (this.editor) {
             this.modelRef?.dispose();
             this.editor.dispose();
@@ -84,6 +267,7 @@ export abstract class EditorAppBase {
     }
 
     protected disposeDiffEditor() {
+        this.disposeWorkspaceModels();
         if (this.diffEditor) {
             this.modelRef?.dispose();
             this.modelOriginalRef?.dispose();
@@ -96,13 +280,114 @@ export abstract class EditorAppBase {
         if (this.getConfig().useDiffEditor) {
             return ((original === true) ? this.modelOriginalRef?.object.textEditorModel : this.modelRef?.object.textEditorModel) ?? undefined;
         } else {
-            return this.modelRef?.object.textEditorModel ?? undefined;
+            return this.getActiveModelRef()?.object.textEditorModel ?? undefined;
+        }
+    }
+
+    private getActiveModelRef() {
+        if (this.activeModelUri !== undefined) {
+            return this.workspaceModelRefs.get(this.activeModelUri);
+        }
+        return this.modelRef;
+    }
+
+    /**
+     * Opens an additional model in the editor workspace, so the language server is aware of it.
+     * The model is not shown in the editor until switchModel is called.
+     * If a model with the given uri is already open, it is returned unchanged.
+     */
+    async openModel(uri: string, code: string, languageId?: string): Promise<editor.ITextModel> {
+        const key = Uri.parse(uri).toString();
+        let modelRef = this.workspaceModelRefs.get(key);
+        if (!modelRef) {
+            if (key === this.getEditorUri('code').toString()) {
+                return Promise.reject(new WrapperStateError('MODEL_ALREADY_OPEN', `The model ${key} is the main model of the editor and cannot be opened again.`));
+            }
+            modelRef = await createModelReference(Uri.parse(key), code) as unknown as IReference<ITextFileEditorModel>;
+            modelRef.object.setLanguageId(languageId ?? this.getConfig().languageId);
+            this.workspaceModelRefs.set(key, modelRef);
+        }
+        return modelRef.object.textEditorModel!;
+    }
+
+    /**
+     * Returns the uris of all models: The main model first followed by all additionally opened models.
+     */
+    getModelUris(): string[] {
+        const uris = this.modelRef ? [this.getEditorUri('code').toString()] : [];
+        return uris.concat(Array.from(this.workspaceModelRefs.keys()));
+    }
+
+    getActiveModelUri(): string | undefined {
+        return this.getActiveModelRef() ? (this.activeModelUri ?? this.getEditorUri('code').toString()) : undefined;
+    }
+
+    /**
+     * Shows the model with the given uri in the regular editor. The view state (cursor, selection, scroll position,
+     * folding) of the model shown before is kept and restored once it is shown again.
+     */
+    async switchModel(uri: string): Promise<void> {
+        if (!this.editor) {
+            return Promise.reject(new WrapperStateError('EDITOR_NOT_AVAILABLE', 'You cannot switch the editor model, because the regular editor is not configured.'));
+        }
+
+        const key = Uri.parse(uri).toString();
+        const isMainModel = key === this.getEditorUri('code').toString();
+        const modelRef = isMainModel ? this.modelRef : this.workspaceModelRefs.get(key);
+        if (!modelRef) {
+            return Promise.reject(new WrapperStateError('MODEL_NOT_FOUND', `No model with uri ${key} is open.`));
+        }
+
+        const currentUri = this.getActiveModelUri();
+        if (currentUri === key) {
+            return;
+        }
+        if (currentUri !== undefined) {
+            const viewState = this.editor.saveViewState();
+            if (viewState) {
+                this.viewStates.set(currentUri, viewState);
+            }
+        }
+
+        this.activeModelUri = isMainModel ? undefined : key;
+        this.editor.setModel(modelRef.object.textEditorModel);
+        const viewState = this.viewStates.get(key);
+        if (viewState) {
+            this.editor.restoreViewState(viewState);
+        }
+    }
+
+    /**
+     * Closes an additionally opened model. If it is currently shown, the editor switches back to the main model.
+     * The main model cannot be closed.
+     */
+    async closeModel(uri: string): Promise<void> {
+        const key = Uri.parse(uri).toString();
+        const modelRef = this.workspaceModelRefs.get(key);
+        if (!modelRef) {
+            return Promise.reject(new WrapperStateError('MODEL_NOT_FOUND', `No additional model with uri ${key} is open.`));
+        }
+
+        if (this.activeModelUri === key) {
+            await this.switchModel(this.getEditorUri('code').toString());
+        }
+        this.workspaceModelRefs.delete(key);
+        this.viewStates.delete(key);
+        modelRef.dispose();
+    }
+
+    private disposeWorkspaceModels() {
+        for (const modelRef of this.workspaceModelRefs.values()) {
+            modelRef.dispose();
         }
+        this.workspaceModelRefs.clear();
+        this.viewStates.clear();
+        this.activeModelUri = undefined;
     }
 
     async updateModel(modelUpdate: ModelUpdate): Promise<void> {
         if (!this.editor) {
-            return Promise.reject(new Error('You cannot update the editor model, because the regular editor is not configured.'));
+            return Promise.reject(new WrapperStateError('EDITOR_NOT_AVAILABLE', 'You cannot update the editor model, because the regular editor is not configured.'));
         }
 
         this.updateAppConfig(modelUpdate);
@@ -116,6 +401,8 @@ export abstract class EditorAppBase {
         const uri: Uri = this.getEditorUri('code');
         this.modelRef = await createModelReference(uri, config.code) as unknown as IReference<ITextFileEditorModel>;
         this.modelRef.object.setLanguageId(config.languageId);
+        this.activeModelUri = undefined;
+        this.viewStates.delete(uri.toString());
         if (this.editor) {
             this.editor.setModel(this.modelRef.object.textEditorModel);
         }
@@ -123,7 +410,7 @@ export abstract class EditorAppBase {
 
     async updateDiffModel(modelUpdate: ModelUpdate): Promise<void> {
         if (!this.diffEditor) {
-            return Promise.reject(new Error('You cannot update the diff editor models, because the diffEditor is not configured.'));
+            return Promise.reject(new WrapperStateError('EDITOR_NOT_AVAILABLE', 'You cannot update the diff editor models, because the diffEditor is not configured.'));
         }
 
         this.updateAppConfig(modelUpdate);
@@ -140,7 +427,7 @@ export abstract class EditorAppBase {
 
         const promises = [];
         promises.push(createModelReference(uri, config.code));
-        promises.push(createModelReference(uriOriginal, config.codeOriginal));
+        promises.push(createModelReference(uriOriginal, config.codeOriginal ?? ''));
 
         const refs = await Promise.all(promises);
         this.modelRef = refs[0] as unknown as IReference<ITextFileEditorModel>;
@@ -201,7 +488,7 @@ export abstract class EditorAppBase {
         this.editor?.updateOptions(options);
     }
 
-    abstract getAppType(): string;
+    abstract getAppType(): EditorAppType;
     abstract init(): Promise<void>;
     abstract createEditors(container: HTMLElement): Promise<void>;
     abstract updateEditorOptions(options: editor.IEditorOptions & editor.IGlobalEditorOptions | VscodeUserConfiguration): void;
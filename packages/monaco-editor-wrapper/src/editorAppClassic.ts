@@ -1,6 +1,7 @@
 import { EditorAppBase, EditorAppBaseConfig, EditorAppType } from './editorAppBase.js';
 import { editor, languages } from 'monaco-editor';
 import { UserConfig } from './wrapper.js';
+import { Logger } from './logger.js';
 /**
  * This is derived from:
  * https://microsoft.github.io/monaco-editor/api/interfaces/monaco.languages.ILanguageExtensionPoint.html
@@ -36,8 +37,8 @@ export class EditorAppClassic extends EditorAppBase {
 
     private config: EditorAppConfigClassic;
 
-    constructor(id: string, userConfig: UserConfig) {
-        super(id);
+    constructor(id: string, userConfig: UserConfig, logger?: Logger) {
+        super(id, logger);
         this.config = this.buildConfig(userConfig) as EditorAppConfigClassic;
         const userInput = userConfig.wrapperConfig.editorAppConfig as EditorAppConfigClassic;
         // default to vs-light
@@ -72,6 +73,14 @@ export class EditorAppClassic extends EditorAppBase {
         }
     }
 
+    protected override getEditorOptions(): editor.IStandaloneEditorConstructionOptions {
+        return this.editorOptions;
+    }
+
+    protected override getDiffEditorOptions(): editor.IStandaloneDiffEditorConstructionOptions {
+        return this.diffEditorOptions;
+    }
+
     async init() {
         // register own language first
         const extLang = this.config.languageExtensionConfig;
@@ -98,7 +107,7 @@ export class EditorAppClassic extends EditorAppBase {
         }
         editor.setTheme(this.config.theme!);
 
-        console.log('Init of MonacoConfig was completed.');
+        this.logger.info('Init of MonacoConfig was completed.');
         return Promise.resolve();
     }
 
@@ -0,0 +1,130 @@
+import { editor } from 'monaco-editor';
+import { Logger } from './logger.js';
+
+export type EditorModelState = {
+    uri: string;
+    languageId: string;
+    content: string;
+    /** Cursor, selections, scroll position and folding of the editor showing the model */
+    viewState?: editor.ICodeEditorViewState;
+    timestamp: number;
+};
+
+/**
+ * Storage for editor states. All keys are model uris.
+ */
+export interface EditorStateStorage {
+    load(uri: string): Promise<EditorModelState | undefined>;
+    save(state: EditorModelState): Promise<void>;
+    remove(uri: string): Promise<void>;
+}
+
+export type EditorStateConfig = {
+    /** Defaults to a storage that keeps the states in memory as long as the page lives */
+    storage?: EditorStateStorage;
+    /** Replace the configured code with the stored content on start (default: true) */
+    restoreContent?: boolean;
+};
+
+export class MemoryEditorStateStorage implements EditorStateStorage {
+
+    private states: Map<string, EditorModelState> = new Map();
+
+    async load(uri: string): Promise<EditorModelState | undefined> {
+        return this.states.get(uri);
+    }
+
+    async save(state: EditorModelState): Promise<void> {
+        this.states.set(state.uri, state);
+    }
+
+    async remove(uri: string): Promise<void> {
+        this.states.delete(uri);
+    }
+}
+
+export class LocalStorageEditorStateStorage implements EditorStateStorage {
+
+    readonly keyPrefix: string;
+    private logger: Logger;
+
+    constructor(keyPrefix = 'monaco-editor-wrapper-state:', logger?: Logger) {
+        this.keyPrefix = keyPrefix;
+        this.logger = logger ?? new Logger();
+    }
+
+    /**
+     * An entry that is no editor state, e.g. because it is corrupt or written by another app, is removed.
+     */
+    async load(uri: string): Promise<EditorModelState | undefined> {
+        const key = this.keyPrefix + uri;
+        const item = localStorage.getItem(key);
+        if (item === null) {
+            return undefined;
+        }
+        let state: EditorModelState | undefined;
+        try {
+            state = JSON.parse(item);
+        } catch {
+            // handled like any other invalid entry
+        }
+        if (typeof state !== 'object' || state === null || typeof state.content !== 'string' || typeof state.languageId !== 'string') {
+            this.logger.warn(`Removed the invalid editor state stored as "${key}".`);
+            localStorage.removeItem(key);
+            return undefined;
+        }
+        return state;
+    }
+
+    async save(state: EditorModelState): Promise<void> {
+        localStorage.setItem(this.keyPrefix + state.uri, JSON.stringify(state));
+    }
+
+    async remove(uri: string): Promise<void> {
+        localStorage.removeItem(this.keyPrefix + uri);
+    }
+}
+
+export class IndexedDbEditorStateStorage implements EditorStateStorage {
+
+    readonly databaseName: string;
+    private storeName = 'editorStates';
+    private database: Promise<IDBDatabase> | undefined;
+
+    constructor(databaseName = 'monaco-editor-wrapper') {
+        this.databaseName = databaseName;
+    }
+
+    private openDatabase(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise((resolve, reject) => {
+                const request = indexedDB.open(this.databaseName, 1);
+                request.onupgradeneeded = () => request.result.createObjectStore(this.storeName, { keyPath: 'uri' });
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.database;
+    }
+
+    private async runRequest<T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const database = await this.openDatabase();
+        return new Promise((resolve, reject) => {
+            const request = createRequest(database.transaction(this.storeName, mode).objectStore(this.storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async load(uri: string): Promise<EditorModelState | undefined> {
+        return this.runRequest<EditorModelState | undefined>('readonly', store => store.get(uri));
+    }
+
+    async save(state: EditorModelState): Promise<void> {
+        await this.runRequest('readwrite', store => store.put(state));
+    }
+
+    async remove(uri: string): Promise<void> {
+        await this.runRequest('readwrite', store => store.delete(uri));
+    }
+}
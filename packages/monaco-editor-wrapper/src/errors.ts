@@ -0,0 +1,93 @@
+import type { ConfigDiagnostic } from './configValidation.js';
+
+export type WrapperConfigErrorCode = 'CONFIG_INVALID' | 'CONFIG_MISSING' | 'CONFIG_DUPLICATE_NAME' | 'CONFIG_DUPLICATE_ID' | 'CONFIG_DUPLICATE_HANDLER';
+
+export type WrapperStateErrorCode =
+    'EDITOR_NOT_STARTED' |
+    'EDITOR_NOT_AVAILABLE' |
+    'MODEL_NOT_FOUND' |
+    'MODEL_ALREADY_OPEN' |
+    'MODEL_URI_CONFLICT' |
+    'LANGUAGE_CLIENT_NOT_FOUND' |
+    'LANGUAGE_CLIENT_NOT_STARTED' |
+    'MERGE_CONFLICT_NOT_FOUND';
+
+export type TransportErrorCode =
+    'TRANSPORT_WEBSOCKET_FAILED' |
+    'TRANSPORT_WEBSOCKET_AUTH_FAILED' |
+    'TRANSPORT_WORKER_FAILED' |
+    'TRANSPORT_IN_PROCESS_FAILED';
+
+export type LanguageClientStartErrorCode = 'LANGUAGE_CLIENT_START_FAILED' | 'LANGUAGE_CLIENT_START_TIMEOUT';
+
+export type DisposeErrorCode = 'DISPOSE_FAILED' | 'DISPOSE_NOT_STARTED';
+
+export type WrapperErrorCode =
+    WrapperConfigErrorCode |
+    WrapperStateErrorCode |
+    TransportErrorCode |
+    LanguageClientStartErrorCode |
+    DisposeErrorCode |
+    'START_ABORTED';
+
+/**
+ * Base class of all errors thrown or rejected by the wrapper. Check the class with instanceof or the stable code
+ * instead of matching the message. The underlying error, if any, is available as cause.
+ */
+export class WrapperError<C extends WrapperErrorCode = WrapperErrorCode> extends Error {
+
+    override name = 'WrapperError';
+    readonly code: C;
+
+    constructor(code: C, message: string, cause?: unknown) {
+        super(message, cause !== undefined ? { cause } : undefined);
+        this.code = code;
+    }
+}
+
+/** The user config is invalid or misses a required part */
+export class WrapperConfigError extends WrapperError<WrapperConfigErrorCode> {
+    override name = 'WrapperConfigError';
+}
+
+/** validateUserConfig found errors. All errors and warnings are available as diagnostics. */
+export class ConfigValidationError extends WrapperConfigError {
+    override name = 'ConfigValidationError';
+    readonly diagnostics: ConfigDiagnostic[];
+
+    constructor(diagnostics: ConfigDiagnostic[]) {
+        const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+        super('CONFIG_INVALID', `The user config is invalid:\n${errors.map(error => `${error.path}: ${error.message}`).join('\n')}`);
+        this.diagnostics = diagnostics;
+    }
+}
+
+/** A method was called in a state that does not allow it, e.g. before the editor was started */
+export class WrapperStateError extends WrapperError<WrapperStateErrorCode> {
+    override name = 'WrapperStateError';
+}
+
+/** The connection to the language server could not be established */
+export class TransportError extends WrapperError<TransportErrorCode> {
+    override name = 'TransportError';
+}
+
+/** The languageclient failed to start or the start timed out */
+export class LanguageClientStartError extends WrapperError<LanguageClientStartErrorCode> {
+    override name = 'LanguageClientStartError';
+}
+
+/** The start of the wrapper or of a languageclient was aborted with the given signal */
+export class StartAbortedError extends WrapperError<'START_ABORTED'> {
+    override name = 'StartAbortedError';
+}
+
+/** Disposing the languageclient failed or it was never started */
+export class DisposeError extends WrapperError<DisposeErrorCode> {
+    override name = 'DisposeError';
+}
+
+/**
+ * All errors rejected by LanguageClientWrapper
+ */
+export type LanguageClientError = WrapperConfigError | TransportError | LanguageClientStartError | StartAbortedError | DisposeError;
@@ -0,0 +1,82 @@
+import { AbstractMessageReader, AbstractMessageWriter, DataCallback, Disposable, Message, MessageReader, MessageWriter } from 'vscode-languageserver-protocol/browser.js';
+import { MessageTransports } from 'vscode-languageclient/lib/common/client.js';
+
+/**
+ * Receives the messages written by the paired InProcessMessageWriter.
+ * Messages arriving before listen was called are buffered.
+ */
+export class InProcessMessageReader extends AbstractMessageReader implements MessageReader {
+
+    private callback: DataCallback | undefined;
+    private buffer: Message[] = [];
+    private closed = false;
+
+    listen(callback: DataCallback): Disposable {
+        this.callback = callback;
+        const buffered = this.buffer;
+        this.buffer = [];
+        buffered.forEach(message => callback(message));
+        return Disposable.create(() => {
+            if (this.callback === callback) {
+                this.callback = undefined;
+            }
+        });
+    }
+
+    deliver(message: Message) {
+        if (this.closed) {
+            return;
+        }
+        if (this.callback) {
+            this.callback(message);
+        } else {
+            this.buffer.push(message);
+        }
+    }
+
+    close() {
+        if (!this.closed) {
+            this.closed = true;
+            this.fireClose();
+        }
+    }
+}
+
+export class InProcessMessageWriter extends AbstractMessageWriter implements MessageWriter {
+
+    private target: InProcessMessageReader;
+
+    constructor(target: InProcessMessageReader) {
+        super();
+        this.target = target;
+    }
+
+    async write(msg: Message): Promise<void> {
+        // deliver asynchronously like any other transport, so request handlers never run re-entrant
+        await Promise.resolve();
+        this.target.deliver(msg);
+    }
+
+    end() {
+        this.target.close();
+    }
+}
+
+/**
+ * Creates the transports of a languageclient connected to a server running in the same JavaScript context.
+ *
+ * @param startServer Receives the reader/writer pair of the server side, e.g. to create a connection with
+ * createMessageConnection or createConnection of vscode-languageserver
+ */
+export const createInProcessMessageTransports = (startServer: (serverTransports: MessageTransports) => void): MessageTransports => {
+    const clientReader = new InProcessMessageReader();
+    const serverReader = new InProcessMessageReader();
+    startServer({
+        reader: serverReader,
+        writer: new InProcessMessageWriter(clientReader)
+    });
+    return {
+        reader: clientReader,
+        writer: new InProcessMessageWriter(serverReader)
+    };
+};
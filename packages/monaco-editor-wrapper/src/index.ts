@@ -6,6 +6,8 @@ import {
 import type {
     EditorAppBaseConfig,
     EditorAppType,
+    EditorMode,
+    EditorModeOptions,
     VscodeUserConfiguration,
 } from './editorAppBase.js';
 
@@ -30,30 +32,208 @@ import type {
     LanguageClientConfigType,
     WebSocketConfigOptions,
     WebSocketConfigOptionsUrl,
+    WebSocketReconnectOptions,
+    WebSocketConnectOptions,
     WorkerConfigOptions,
     WorkerConfigDirect,
+    SharedWorkerConfigOptions,
+    MessagePortConfig,
+    InProcessConfig,
     LanguageClientConfig,
-    LanguageClientError
+    LanguageClientClientOptions,
+    LanguageClientStatus
 } from './languageClientWrapper.js';
 
 import {
     LanguageClientWrapper,
+    DEFAULT_LANGUAGE_CLIENT_NAME
 } from './languageClientWrapper.js';
 
 import type {
     UserConfig,
     ModelUpdate,
-    WrapperConfig
+    WrapperConfig,
+    EditorStartedEvent,
+    EditorDisposedEvent,
+    LanguageClientStartedEvent,
+    LanguageClientStateChangeEvent,
+    WrapperErrorEvent,
+    WrapperStatus,
+    WrapperStartOptions
 } from './wrapper.js';
 
+import type {
+    LogLevel,
+    LogEntry,
+    LoggerConfig
+} from './logger.js';
+
 import {
-    MonacoEditorLanguageClientWrapper,
+    Logger
+} from './logger.js';
+
+import type {
+    EditorModelState,
+    EditorStateStorage,
+    EditorStateConfig
+} from './editorState.js';
+
+import {
+    MemoryEditorStateStorage,
+    LocalStorageEditorStateStorage,
+    IndexedDbEditorStateStorage
+} from './editorState.js';
+
+import type {
+    MergeInput,
+    MergeEditorConfig,
+    MergeResolution,
+    MergeConflictRegion,
+    MergeResult
+} from './merge.js';
+
+import {
+    MergeConflictController,
+    mergeThreeWay,
+    findMergeConflicts
+} from './merge.js';
+
+import type {
+    CollaborationId,
+    CollaborationOperation,
+    CollaborationInsert,
+    CollaborationVisibilityChange,
+    CollaborationSpan,
+    CollaborationChange,
+    CollaborationElement,
+    CollaborationVersion,
+    CollaborationState
+} from './replicatedText.js';
+
+import type {
+    CollaborationSelection,
+    CollaborationMessage,
+    CollaborationConnection,
+    CollaborationProvider,
+    CollaborationConfig
+} from './collaboration.js';
+
+import {
+    CollaborationBinding,
+    InMemoryCollaborationProvider,
+    BroadcastChannelCollaborationProvider
+} from './collaboration.js';
+
+import type {
+    DirtyChangeEvent
+} from './dirtyTracker.js';
+
+import {
+    DirtyStateTracker
+} from './dirtyTracker.js';
+
+import type {
+    WrapperErrorCode,
+    WrapperConfigErrorCode,
+    WrapperStateErrorCode,
+    TransportErrorCode,
+    LanguageClientStartErrorCode,
+    DisposeErrorCode,
+    LanguageClientError
+} from './errors.js';
+
+import {
+    WrapperError,
+    WrapperConfigError,
+    ConfigValidationError,
+    WrapperStateError,
+    TransportError,
+    LanguageClientStartError,
+    StartAbortedError,
+    DisposeError
+} from './errors.js';
+
+import type {
+    ConfigDiagnosticSeverity,
+    ConfigDiagnostic
+} from './configValidation.js';
+
+import {
+    validateUserConfig
+} from './configValidation.js';
+
+import type {
+    SerializedServiceConfig,
+    SerializedRegExp,
+    SerializedExtensionFile,
+    SerializedEditorAppConfigClassic,
+    SerializedEditorAppConfigVscodeApi,
+    SerializedWebSocketReconnectOptions,
+    SerializedWebSocketConfigOptions,
+    SerializedWebSocketConfigOptionsUrl,
+    SerializedWorkerConfigOptions,
+    SerializedSharedWorkerConfigOptions,
+    SerializedLanguageClientConfig,
+    SerializedEditorStateStorage,
+    SerializedUserConfig,
+    UserConfigLoadOptions
+} from './serializableConfig.js';
+
+import {
+    loadUserConfig,
+    serializeUserConfig
+} from './serializableConfig.js';
+
+import type {
+    DiagnosticsChangeEvent,
+    DiagnosticsFilter,
+    DiagnosticCounts
+} from './diagnostics.js';
+
+import {
+    DiagnosticsTracker
+} from './diagnostics.js';
+
+import type {
+    LspMessageDirection,
+    RecordedLspMessage,
+    LspTrafficRecording,
+    LspTrafficFilter,
+    LspTrafficRecorderOptions
+} from './trafficRecorder.js';
+
+import {
+    LspTrafficRecorder,
+    parseLspTrafficRecording,
+    createReplayServer
+} from './trafficRecorder.js';
+
+import type {
+    LanguageClientNotificationHandler,
+    LanguageClientRequestHandler
+} from './messageHandlers.js';
+
+import {
+    getWrapperById,
+    getWrapperIds
+} from './wrapperRegistry.js';
+
+import {
+    InProcessMessageReader,
+    InProcessMessageWriter,
+    createInProcessMessageTransports
+} from './inProcess.js';
+
+import {
+    MonacoEditorLanguageClientWrapper
 } from './wrapper.js';
 
 export type {
     WrapperConfig,
     EditorAppBaseConfig,
     EditorAppType,
+    EditorMode,
+    EditorModeOptions,
     EditorAppConfigClassic,
     EditorAppConfigVscodeApi,
     VscodeUserConfiguration,
@@ -61,21 +241,125 @@ export type {
     LanguageClientConfigType,
     WebSocketConfigOptions,
     WebSocketConfigOptionsUrl,
+    WebSocketReconnectOptions,
+    WebSocketConnectOptions,
     WorkerConfigOptions,
     WorkerConfigDirect,
+    SharedWorkerConfigOptions,
+    MessagePortConfig,
+    InProcessConfig,
     LanguageClientConfig,
+    LanguageClientClientOptions,
     LanguageClientError,
+    LanguageClientStatus,
     UserConfig,
-    ModelUpdate
+    ModelUpdate,
+    EditorStartedEvent,
+    EditorDisposedEvent,
+    LanguageClientStartedEvent,
+    LanguageClientStateChangeEvent,
+    WrapperErrorEvent,
+    WrapperStatus,
+    WrapperStartOptions,
+    LogLevel,
+    LogEntry,
+    LoggerConfig,
+    CollaborationId,
+    CollaborationOperation,
+    CollaborationInsert,
+    CollaborationVisibilityChange,
+    CollaborationSpan,
+    CollaborationChange,
+    CollaborationElement,
+    CollaborationVersion,
+    CollaborationState,
+    CollaborationSelection,
+    CollaborationMessage,
+    CollaborationConnection,
+    CollaborationProvider,
+    CollaborationConfig,
+    EditorModelState,
+    EditorStateStorage,
+    EditorStateConfig,
+    MergeInput,
+    MergeEditorConfig,
+    MergeResolution,
+    MergeConflictRegion,
+    MergeResult,
+    DirtyChangeEvent,
+    WrapperErrorCode,
+    WrapperConfigErrorCode,
+    WrapperStateErrorCode,
+    TransportErrorCode,
+    LanguageClientStartErrorCode,
+    DisposeErrorCode,
+    ConfigDiagnosticSeverity,
+    ConfigDiagnostic,
+    SerializedServiceConfig,
+    SerializedRegExp,
+    SerializedExtensionFile,
+    SerializedEditorAppConfigClassic,
+    SerializedEditorAppConfigVscodeApi,
+    SerializedWebSocketReconnectOptions,
+    SerializedWebSocketConfigOptions,
+    SerializedWebSocketConfigOptionsUrl,
+    SerializedWorkerConfigOptions,
+    SerializedSharedWorkerConfigOptions,
+    SerializedLanguageClientConfig,
+    SerializedEditorStateStorage,
+    SerializedUserConfig,
+    UserConfigLoadOptions,
+    DiagnosticsChangeEvent,
+    DiagnosticsFilter,
+    DiagnosticCounts,
+    LspMessageDirection,
+    RecordedLspMessage,
+    LspTrafficRecording,
+    LspTrafficFilter,
+    LspTrafficRecorderOptions,
+    LanguageClientNotificationHandler,
+    LanguageClientRequestHandler
 };
 
 export {
     MonacoEditorLanguageClientWrapper,
+    DEFAULT_LANGUAGE_CLIENT_NAME,
     LanguageClientWrapper,
     EditorAppBase,
     isVscodeApiEditorApp,
     EditorAppClassic,
-    EditorAppVscodeApi
+    EditorAppVscodeApi,
+    Logger,
+    CollaborationBinding,
+    InMemoryCollaborationProvider,
+    BroadcastChannelCollaborationProvider,
+    MemoryEditorStateStorage,
+    LocalStorageEditorStateStorage,
+    IndexedDbEditorStateStorage,
+    MergeConflictController,
+    mergeThreeWay,
+    findMergeConflicts,
+    DirtyStateTracker,
+    InProcessMessageReader,
+    InProcessMessageWriter,
+    createInProcessMessageTransports,
+    WrapperError,
+    WrapperConfigError,
+    ConfigValidationError,
+    WrapperStateError,
+    TransportError,
+    LanguageClientStartError,
+    StartAbortedError,
+    DisposeError,
+    validateUserConfig,
+    loadUserConfig,
+    serializeUserConfig,
+    getWrapperById,
+    getWrapperIds,
+    DiagnosticsTracker,
+    LspTrafficRecorder,
+    parseLspTrafficRecording,
+    createReplayServer
 };
 
 export * from './utils.js';
@@ -1,21 +1,62 @@
+import { Emitter, IDisposable } from 'monaco-editor';
 import { MonacoLanguageClient } from 'monaco-languageclient';
 import { toSocket, WebSocketMessageReader, WebSocketMessageWriter } from 'vscode-ws-jsonrpc';
-import { BrowserMessageReader, BrowserMessageWriter } from 'vscode-languageserver-protocol/browser.js';
-import { CloseAction, ErrorAction, MessageTransports } from 'vscode-languageclient/lib/common/client.js';
-import { createUrl } from './utils.js';
+import { CloseAction, ErrorAction, ErrorHandler, LanguageClientOptions, MessageTransports, State, StateChangeEvent } from 'vscode-languageclient/lib/common/client.js';
+import { BrowserMessageReader, BrowserMessageWriter, DidSaveTextDocumentNotification, DocumentSelector, TextDocumentSaveReason, TextDocumentSyncKind, WillSaveTextDocumentNotification } from 'vscode-languageserver-protocol/browser.js';
+import { computeReconnectDelay, createUrl, matchDocumentSelector } from './utils.js';
+import { Logger } from './logger.js';
+import { DisposeError, LanguageClientStartError, StartAbortedError, TransportError, WrapperConfigError } from './errors.js';
+import { LspTrafficRecorder } from './trafficRecorder.js';
 
 export type WebSocketCallOptions = {
     /** Adds handle on languageClient */
     onCall: () => void;
-    /** Reports Status Of Language Client */
+    /** Logs the status of the languageclient */
     reportStatus?: boolean;
 }
 
+export type WebSocketReconnectOptions = {
+    /** Maximum number of reconnect attempts before giving up (default: 10) */
+    maxAttempts?: number;
+    /** Delay in milliseconds before the first reconnect attempt (default: 1000) */
+    initialDelay?: number;
+    /** Upper bound in milliseconds for the delay between two attempts (default: 30000) */
+    maxDelay?: number;
+    /** Factor the delay is multiplied with after each failed attempt (default: 2) */
+    multiplier?: number;
+    /** Ratio (0 to 1) of the delay that is randomized to avoid all clients reconnecting at once (default: 0.5) */
+    jitter?: number;
+    /** Called before each reconnect attempt */
+    onReconnecting?: (attempt: number, delay: number) => void;
+    /** Called when the connection was successfully re-established */
+    onReconnected?: (attempt: number) => void;
+    /** Called when all attempts failed and no further reconnect is tried */
+    onGaveUp?: (attempts: number) => void;
+}
+
+/**
+ * Browsers do not allow to set headers on web sockets, so credentials are passed as query parameter or sub-protocol.
+ */
+export type WebSocketConnectOptions = {
+    /** Appended to the url, e.g. a tenant id */
+    queryParams?: Record<string, string>;
+    /** Sub-protocols passed to the WebSocket constructor */
+    protocols?: string | string[];
+    /** Called before each connect and reconnect. The token is appended to the url as query parameter. */
+    tokenProvider?: () => Promise<string> | string;
+    /** Name of the query parameter carrying the token (default: access_token) */
+    tokenQueryParam?: string;
+    /** Close codes the server uses when it rejects the token (default: 1008, 4001, 4003) */
+    authFailureCloseCodes?: number[];
+    /** Called when the server closed the connection with an auth failure close code. Afterwards a new token is requested and the connection is retried once. */
+    onAuthFailure?: (code: number, reason: string) => Promise<void> | void;
+}
+
 export type LanguageClientConfigBase = {
     name?: string;
 }
 
-export type LanguageClientConfigType = 'WebSocket' | 'WebSocketUrl' | 'WorkerConfig' | 'Worker';
+export type LanguageClientConfigType = 'WebSocket' | 'WebSocketUrl' | 'WorkerConfig' | 'WorkerDirect' | 'SharedWorkerConfig' | 'MessagePort' | 'InProcess';
 
 export type WebSocketUrl = LanguageClientConfigBase & {
     secured: boolean;
@@ -24,7 +65,7 @@ export type WebSocketUrl = LanguageClientConfigBase & {
     path?: string;
 }
 
-export type WebSocketConfigOptions = LanguageClientConfigBase & {
+export type WebSocketConfigOptions = LanguageClientConfigBase & WebSocketConnectOptions & {
     $type: 'WebSocket'
     secured: boolean;
     host: string;
@@ -32,13 +73,15 @@ export type WebSocketConfigOptions = LanguageClientConfigBase & {
     path?: string;
     startOptions?: WebSocketCallOptions;
     stopOptions?: WebSocketCallOptions;
+    reconnectOptions?: WebSocketReconnectOptions;
 }
 
-export type WebSocketConfigOptionsUrl = LanguageClientConfigBase & {
+export type WebSocketConfigOptionsUrl = LanguageClientConfigBase & WebSocketConnectOptions & {
     $type: 'WebSocketUrl'
     url: string;
     startOptions?: WebSocketCallOptions;
     stopOptions?: WebSocketCallOptions;
+    reconnectOptions?: WebSocketReconnectOptions;
 }
 
 export type WorkerConfigOptions = LanguageClientConfigBase & {
@@ -52,15 +95,88 @@ export type WorkerConfigDirect = LanguageClientConfigBase & {
     worker: Worker;
 };
 
+/**
+ * Connects to a language server running in a SharedWorker. All languageclients using the same url and worker name
+ * share one server, even if they belong to different wrappers. The server has to create a separate connection for
+ * every port it receives via onconnect.
+ */
+export type SharedWorkerConfigOptions = LanguageClientConfigBase & {
+    $type: 'SharedWorkerConfig';
+    url: URL;
+    type: 'classic' | 'module';
+    workerName?: string;
+};
+
+export type MessagePortConfig = LanguageClientConfigBase & {
+    $type: 'MessagePort';
+    /**
+     * A port passed directly is owned by the caller and stays open when the languageclient is disposed. Ports created
+     * by a factory are closed on dispose, so the factory is called again for the next languageclient.
+     */
+    port: MessagePort | (() => MessagePort);
+};
+
+/**
+ * Connects to a language server running in the same JavaScript context, see createInProcessMessageTransports.
+ */
+export type InProcessConfig = LanguageClientConfigBase & {
+    $type: 'InProcess';
+    /** Called on every start, so a restarted languageclient gets a new connection */
+    createMessageTransports: () => MessageTransports | Promise<MessageTransports>;
+};
+
+/**
+ * Options passed through to the languageclient
+ */
+export type LanguageClientClientOptions = Pick<LanguageClientOptions, 'middleware' | 'synchronize' | 'outputChannel' | 'workspaceFolder' | 'diagnosticCollectionName'>;
+
 export type LanguageClientConfig = {
-    options: WebSocketConfigOptions | WebSocketConfigOptionsUrl | WorkerConfigOptions | WorkerConfigDirect;
+    options: WebSocketConfigOptions | WebSocketConfigOptionsUrl | WorkerConfigOptions | WorkerConfigDirect | SharedWorkerConfigOptions | MessagePortConfig | InProcessConfig;
+    /**
+     * Documents served by this languageclient: language ids or filters by language, uri scheme and glob pattern,
+     * e.g. [{ language: 'json', scheme: 'file', pattern: '**\/*.config.json' }]. Defaults to the language id of the editor
+     */
+    documentSelector?: DocumentSelector;
+    /** Time in milliseconds after which a start or restart is given up and rejected. Default: no timeout */
+    startTimeout?: number;
+    /** Records all messages exchanged with the server, for debugging only */
+    trafficRecorder?: LspTrafficRecorder;
+    /** E.g. middleware to customize completion items, filter code actions or rewrite diagnostics */
+    clientOptions?: LanguageClientClientOptions;
+    /**
+     * Replaces the default handling of connection errors (continue) and closes (do not restart).
+     * Restarts after a lost web socket connection are done by reconnectOptions, a handler restarting on close competes with it.
+     */
+    errorHandler?: Partial<ErrorHandler>;
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     initializationOptions?: any;
 }
 
-export type LanguageClientError = {
-    message: string;
-    error: Error | string;
+/**
+ * Resources created by a start that is still in progress. They are released if the start fails, times out or is aborted.
+ */
+type PendingStart = {
+    settled: boolean;
+    webSocket?: WebSocket;
+    worker?: Worker;
+    messagePort?: MessagePort;
+    messageTransports?: MessageTransports;
+    languageClient?: MonacoLanguageClient;
+    /** Removes the error handler of the shared worker bound to this start */
+    removeWorkerErrorHandler?: () => void;
+};
+
+/** Name of the languageclient configured by UserConfig.languageClientConfig if it has none */
+export const DEFAULT_LANGUAGE_CLIENT_NAME = 'default';
+
+export type LanguageClientStatus = {
+    name?: string;
+    transportType?: LanguageClientConfigType;
+    /** State of the current languageclient, undefined if none was created yet */
+    state?: State;
+    started: boolean;
+    haveWorker: boolean;
+    haveMessagePort: boolean;
 };
 
 export class LanguageClientWrapper {
@@ -68,16 +184,42 @@ export class LanguageClientWrapper {
     private languageClient: MonacoLanguageClient | undefined;
     private languageClientConfig?: LanguageClientConfig;
     private worker: Worker | undefined;
+    private messagePort: MessagePort | undefined;
+    // a port passed in by the configuration belongs to the caller and is not closed
+    private ownsMessagePort = false;
+    private sharedWorker: SharedWorker | undefined;
     private languageId: string | undefined;
     private name;
+    private logger: Logger;
+    private disposing = false;
+    private reconnecting = false;
+    private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    private webSocketCloseEvent: CloseEvent | undefined;
+    private stateSubscription: IDisposable | undefined;
 
-    constructor(languageClientConfig?: LanguageClientConfig) {
+    private onDidCreateEmitter = new Emitter<MonacoLanguageClient>();
+    private onDidStartEmitter = new Emitter<void>();
+    private onDidChangeStateEmitter = new Emitter<StateChangeEvent>();
+
+    /** Fired whenever a languageclient was created, right before it is started */
+    readonly onDidCreate = this.onDidCreateEmitter.event;
+    /** Fired whenever a languageclient was started: initially, on restart and on reconnect */
+    readonly onDidStart = this.onDidStartEmitter.event;
+    /** Fired whenever the state of the current languageclient changes */
+    readonly onDidChangeState = this.onDidChangeStateEmitter.event;
+
+    constructor(languageClientConfig?: LanguageClientConfig, name?: string, logger?: Logger) {
+        this.logger = logger ?? new Logger();
         if (languageClientConfig) {
             this.languageClientConfig = languageClientConfig;
-            this.name = this.languageClientConfig.options.name ?? 'unnamed';
+            this.name = this.languageClientConfig.options.name ?? name ?? 'unnamed';
         }
     }
 
+    getName(): string | undefined {
+        return this.name;
+    }
+
     haveLanguageClient(): boolean {
         return this.languageClient !== undefined;
     }
@@ -94,6 +236,13 @@ export class LanguageClientWrapper {
         return this.worker;
     }
 
+    /**
+     * Returns the port used by SharedWorkerConfig and MessagePort configurations
+     */
+    getMessagePort(): MessagePort | undefined {
+        return this.messagePort;
+    }
+
     isStarted(): boolean {
         return this.languageClient !== undefined && this.languageClient?.isRunning();
     }
@@ -102,15 +251,14 @@ export class LanguageClientWrapper {
         this.languageId = languageId;
     }
 
-    async start() {
+    /**
+     * @param signal Aborts the start. Everything created so far is released and the start is rejected.
+     */
+    async start(signal?: AbortSignal) {
         if (this.languageClientConfig) {
-            return this.startLanguageClientConnection();
+            return this.startWithAuthRetry(signal);
         } else {
-            const languageClientError: LanguageClientError = {
-                message: `languageClientWrapper (${this.name}): Unable to start monaco-languageclient. No configuration was provided.`,
-                error: 'No error was provided.'
-            };
-            return Promise.reject(languageClientError);
+            return Promise.reject(new WrapperConfigError('CONFIG_MISSING', `languageClientWrapper (${this.name}): Unable to start monaco-languageclient. No configuration was provided.`));
         }
     }
 
@@ -128,43 +276,161 @@ export class LanguageClientWrapper {
         }
         this.worker = updatedWorker;
         if (this.languageClientConfig) {
-            console.log('Re-Starting monaco-languageclient');
-            await this.startLanguageClientConnection();
+            this.logger.info(`languageClientWrapper (${this.name}): Re-Starting monaco-languageclient`);
+            await this.startWithAuthRetry();
         } else {
-            const languageClientError: LanguageClientError = {
-                message: `languageClientWrapper (${this.name}): Unable to restart languageclient. No configuration was provided.`,
-                error: 'No error was provided.'
-            };
-            await Promise.reject(languageClientError);
+            await Promise.reject(new WrapperConfigError('CONFIG_MISSING', `languageClientWrapper (${this.name}): Unable to restart languageclient. No configuration was provided.`));
+        }
+    }
+
+    /**
+     * If the server rejects the credentials of the web socket, onAuthFailure is called and the start is retried once
+     * with a new token.
+     */
+    private async startWithAuthRetry(signal?: AbortSignal): Promise<string> {
+        try {
+            return await this.startLanguageClientConnection(signal);
+        } catch (e) {
+            const lcConfig = this.languageClientConfig?.options;
+            // a failing token provider is not retried
+            if (signal?.aborted || !(e instanceof TransportError && e.cause instanceof CloseEvent) ||
+                (lcConfig?.$type !== 'WebSocket' && lcConfig?.$type !== 'WebSocketUrl') || !this.isAuthFailure(lcConfig, e.cause)) {
+                throw e;
+            }
+            await this.handleAuthFailure(lcConfig, e.cause);
+            return this.startLanguageClientConnection(signal);
         }
     }
 
-    private startLanguageClientConnection(): Promise<string> {
+    private async handleAuthFailure(lcConfig: WebSocketConfigOptions | WebSocketConfigOptionsUrl, closeEvent: CloseEvent) {
+        this.logger.warn(`languageClientWrapper (${this.name}): The server rejected the credentials (close code ${closeEvent.code}). Retrying with a new token.`);
+        await lcConfig.onAuthFailure?.(closeEvent.code, closeEvent.reason);
+    }
+
+    private isAuthFailure(lcConfig: WebSocketConfigOptions | WebSocketConfigOptionsUrl, closeEvent: CloseEvent | undefined): closeEvent is CloseEvent {
+        return closeEvent !== undefined && (lcConfig.authFailureCloseCodes ?? [1008, 4001, 4003]).includes(closeEvent.code);
+    }
+
+    private startLanguageClientConnection(signal?: AbortSignal): Promise<string> {
         if (this.languageClient && this.languageClient.isRunning()) {
             return Promise.resolve('monaco-languageclient already running!');
         }
 
-        return new Promise((resolve, reject) => {
+        return new Promise((resolveStart, rejectStart) => {
+            const pending: PendingStart = { settled: false };
+            const startTimeout = this.languageClientConfig?.startTimeout;
+            let timer: ReturnType<typeof setTimeout> | undefined;
+
+            const settle = () => {
+                pending.settled = true;
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                pending.removeWorkerErrorHandler?.();
+            };
+            const resolve = (value: string) => {
+                if (!pending.settled) {
+                    settle();
+                    resolveStart(value);
+                }
+            };
+            const reject = (reason?: unknown) => {
+                if (!pending.settled) {
+                    settle();
+                    // the start is only rejected once everything it created is released
+                    this.cleanupPendingStart(pending).then(() => rejectStart(reason));
+                }
+            };
+            const onAbort = () => {
+                reject(new StartAbortedError('START_ABORTED', `languageClientWrapper (${this.name}): Start was aborted.`, signal?.reason));
+            };
+
+            if (signal?.aborted) {
+                onAbort();
+                return;
+            }
+            signal?.addEventListener('abort', onAbort);
+            if (startTimeout !== undefined) {
+                timer = setTimeout(() => {
+                    reject(new LanguageClientStartError('LANGUAGE_CLIENT_START_TIMEOUT', `languageClientWrapper (${this.name}): Start timed out after ${startTimeout}ms.`));
+                }, startTimeout);
+            }
+
             const lcConfig = this.languageClientConfig?.options;
             if (lcConfig?.$type === 'WebSocket' || lcConfig?.$type === 'WebSocketUrl') {
-                const url = createUrl(lcConfig);
-                const webSocket = new WebSocket(url);
-
-                webSocket.onopen = () => {
-                    const socket = toSocket(webSocket);
-                    const messageTransports = {
-                        reader: new WebSocketMessageReader(socket),
-                        writer: new WebSocketMessageWriter(socket)
+                const connect = (token?: string) => {
+                    if (pending.settled) {
+                        return;
+                    }
+                    let url: string;
+                    try {
+                        url = createUrl(lcConfig, token);
+                    } catch (e) {
+                        reject(e);
+                        return;
+                    }
+                    const webSocket = new WebSocket(url, lcConfig.protocols);
+                    pending.webSocket = webSocket;
+                    this.webSocketCloseEvent = undefined;
+
+                    // registered before the reader, so the close code is known when the reader reports the close
+                    webSocket.addEventListener('close', ev => {
+                        this.webSocketCloseEvent = ev;
+                        if (this.isAuthFailure(lcConfig, ev)) {
+                            reject(new TransportError('TRANSPORT_WEBSOCKET_AUTH_FAILED', `languageClientWrapper (${this.name}): The server rejected the credentials (close code ${ev.code}).`, ev));
+                        }
+                    });
+                    webSocket.onopen = () => {
+                        const socket = toSocket(webSocket);
+                        const messageTransports = {
+                            reader: new WebSocketMessageReader(socket),
+                            writer: new WebSocketMessageWriter(socket)
+                        };
+                        this.handleLanguageClientStart(messageTransports, pending, resolve, reject);
+                    };
+                    webSocket.onerror = (ev: Event) => {
+                        reject(new TransportError('TRANSPORT_WEBSOCKET_FAILED', `languageClientWrapper (${this.name}): Websocket connection failed.`, (ev as ErrorEvent).error));
                     };
-                    this.handleLanguageClientStart(messageTransports, resolve, reject);
                 };
-                webSocket.onerror = (ev: Event) => {
-                    const languageClientError: LanguageClientError = {
-                        message: `languageClientWrapper (${this.name}): Websocket connection failed.`,
-                        error: (ev as ErrorEvent).error ?? 'No error was provided.'
+
+                const tokenProvider = lcConfig.tokenProvider;
+                if (tokenProvider) {
+                    Promise.resolve()
+                        .then(() => tokenProvider())
+                        .then(token => connect(token), e => {
+                            reject(new TransportError('TRANSPORT_WEBSOCKET_AUTH_FAILED', `languageClientWrapper (${this.name}): Requesting the token failed.`, e));
+                        });
+                } else {
+                    connect();
+                }
+            } else if (lcConfig?.$type === 'InProcess') {
+                Promise.resolve()
+                    .then(() => lcConfig.createMessageTransports())
+                    .then(messageTransports => this.handleLanguageClientStart(messageTransports, pending, resolve, reject))
+                    .catch(e => {
+                        reject(new TransportError('TRANSPORT_IN_PROCESS_FAILED', `languageClientWrapper (${this.name}): Creating the in-process message transports failed.`, e));
+                    });
+            } else if (lcConfig?.$type === 'SharedWorkerConfig' || lcConfig?.$type === 'MessagePort') {
+                if (!this.messagePort) {
+                    this.messagePort = this.createMessagePort(lcConfig);
+                    this.ownsMessagePort = lcConfig.$type === 'SharedWorkerConfig' || typeof lcConfig.port === 'function';
+                    if (this.ownsMessagePort) {
+                        pending.messagePort = this.messagePort;
+                    }
+                }
+                const sharedWorker = this.sharedWorker;
+                if (sharedWorker) {
+                    // the worker outlives a restart with keepWorker, so its errors are routed to the current start only
+                    const onError = (ev: Event) => {
+                        reject(new TransportError('TRANSPORT_WORKER_FAILED', `languageClientWrapper (${this.name}): Illegal shared worker configuration detected. Potentially the url is wrong.`, (ev as ErrorEvent).error));
                     };
-                    reject(languageClientError);
+                    sharedWorker.addEventListener('error', onError);
+                    pending.removeWorkerErrorHandler = () => sharedWorker.removeEventListener('error', onError);
+                }
+                const messageTransports = {
+                    reader: new BrowserMessageReader(this.messagePort),
+                    writer: new BrowserMessageWriter(this.messagePort)
                 };
+                this.handleLanguageClientStart(messageTransports, pending, resolve, reject);
             } else {
                 if (!this.worker) {
                     if (lcConfig?.$type === 'WorkerConfig') {
@@ -173,13 +439,10 @@ export class LanguageClientWrapper {
                             type: workerConfig.type,
                             name: workerConfig.name
                         });
+                        pending.worker = this.worker;
 
                         this.worker.onerror = (ev) => {
-                            const languageClientError: LanguageClientError = {
-                                message: `languageClientWrapper (${this.name}): Illegal worker configuration detected. Potentially the url is wrong.`,
-                                error: ev.error ?? 'No error was provided.'
-                            };
-                            reject(languageClientError);
+                            reject(new TransportError('TRANSPORT_WORKER_FAILED', `languageClientWrapper (${this.name}): Illegal worker configuration detected. Potentially the url is wrong.`, ev.error));
                         };
                     } else {
                         const workerDirectConfig = lcConfig as WorkerConfigDirect;
@@ -190,57 +453,243 @@ export class LanguageClientWrapper {
                     reader: new BrowserMessageReader(this.worker),
                     writer: new BrowserMessageWriter(this.worker)
                 };
-                this.handleLanguageClientStart(messageTransports, resolve, reject);
+                this.handleLanguageClientStart(messageTransports, pending, resolve, reject);
             }
         });
     }
 
+    /**
+     * Releases everything a failed, timed out or aborted start has created. Workers and ports passed in by the
+     * configuration are kept, because they are owned by the caller.
+     */
+    private async cleanupPendingStart(pending: PendingStart) {
+        if (pending.languageClient && this.languageClient === pending.languageClient) {
+            this.languageClient = undefined;
+            this.disposeStateSubscription();
+        }
+        try {
+            // a languageclient that is still starting cannot be stopped, but it is marked as disposed, so it is not
+            // restarted once the closed transports let its start fail
+            await pending.languageClient?.dispose();
+        } catch (e) {
+            this.logger.debug(`languageClientWrapper (${this.name}): Disposing the languageclient of the cancelled start failed.`, e);
+        }
+        pending.messageTransports?.reader.dispose();
+        pending.messageTransports?.writer.end();
+        pending.messageTransports?.writer.dispose();
+        pending.webSocket?.close();
+        if (pending.worker) {
+            pending.worker.terminate();
+            if (this.worker === pending.worker) {
+                this.worker = undefined;
+            }
+        }
+        if (pending.messagePort) {
+            pending.messagePort.close();
+            if (this.messagePort === pending.messagePort) {
+                this.messagePort = undefined;
+                this.sharedWorker = undefined;
+            }
+        }
+    }
+
+    /**
+     * Every languageclient gets its own port, so each one has a separate connection to the shared server.
+     */
+    private createMessagePort(lcConfig: SharedWorkerConfigOptions | MessagePortConfig): MessagePort {
+        let port: MessagePort;
+        if (lcConfig.$type === 'SharedWorkerConfig') {
+            this.sharedWorker = new SharedWorker(new URL(lcConfig.url, window.location.href).href, {
+                type: lcConfig.type,
+                name: lcConfig.workerName
+            });
+            port = this.sharedWorker.port;
+        } else {
+            port = typeof lcConfig.port === 'function' ? lcConfig.port() : lcConfig.port;
+        }
+        port.start();
+        return port;
+    }
+
     private async handleLanguageClientStart(messageTransports: MessageTransports,
+        pending: PendingStart,
         resolve: (value: string) => void,
         reject: (reason?: unknown) => void) {
 
-        this.languageClient = this.createLanguageClient(messageTransports);
+        if (pending.settled) {
+            // the start timed out or was aborted while the connection was established
+            messageTransports.writer.end();
+            return;
+        }
+        const trafficRecorder = this.languageClientConfig?.trafficRecorder;
+        if (trafficRecorder) {
+            messageTransports = trafficRecorder.tap(messageTransports);
+        }
+        const languageClient = this.createLanguageClient(messageTransports);
+        this.languageClient = languageClient;
+        pending.languageClient = languageClient;
+        pending.messageTransports = messageTransports;
+        this.stateSubscription?.dispose();
+        this.stateSubscription = languageClient.onDidChangeState(event => this.onDidChangeStateEmitter.fire(event));
+        this.onDidCreateEmitter.fire(languageClient);
         const lcConfig = this.languageClientConfig?.options;
         messageTransports.reader.onClose(async () => {
-            await this.languageClient?.stop();
+            try {
+                await languageClient.stop();
+            } catch {
+                // the shutdown request can not be answered anymore, the connection is already gone
+            }
             if ((lcConfig?.$type === 'WebSocket' || lcConfig?.$type === 'WebSocketUrl') && lcConfig?.stopOptions) {
                 const stopOptions = lcConfig?.stopOptions;
                 stopOptions.onCall();
                 if (stopOptions.reportStatus) {
-                    console.log(this.reportStatus().join('\n'));
+                    this.logger.info(`languageClientWrapper (${this.name}): Stopped`, this.getStatus());
+                }
+            }
+
+            // only reconnect if the connection was lost and not closed intentionally
+            const connectionLost = !this.disposing && !this.reconnecting && this.languageClient === languageClient;
+            if (connectionLost && (lcConfig?.$type === 'WebSocket' || lcConfig?.$type === 'WebSocketUrl')) {
+                const closeEvent = this.webSocketCloseEvent;
+                if (this.isAuthFailure(lcConfig, closeEvent)) {
+                    try {
+                        await this.handleAuthFailure(lcConfig, closeEvent);
+                        await this.startLanguageClientConnection();
+                        return;
+                    } catch (e) {
+                        this.logger.warn(`languageClientWrapper (${this.name}): Reconnecting with a new token failed.`, e);
+                    }
+                }
+                if (lcConfig.reconnectOptions) {
+                    await this.reconnect(lcConfig.reconnectOptions);
                 }
             }
         });
 
         try {
-            await this.languageClient.start();
+            await languageClient.start();
+            if (pending.settled && this.languageClient !== languageClient) {
+                // the start timed out or was aborted, nobody uses this languageclient anymore
+                await languageClient.dispose();
+                return;
+            }
+            this.onDidStartEmitter.fire();
             if ((lcConfig?.$type === 'WebSocket' || lcConfig?.$type === 'WebSocketUrl') && lcConfig?.startOptions) {
                 const startOptions = lcConfig?.startOptions;
                 startOptions.onCall();
                 if (startOptions.reportStatus) {
-                    console.log(this.reportStatus().join('\n'));
+                    this.logger.info(`languageClientWrapper (${this.name}): Started`, this.getStatus());
                 }
             }
         } catch (e) {
-            const languageClientError: LanguageClientError = {
-                message: `languageClientWrapper (${this.name}): Start was unsuccessful.`,
-                error: (e as Error) ?? 'No error was provided.'
-            };
-            reject(languageClientError);
+            reject(new LanguageClientStartError('LANGUAGE_CLIENT_START_FAILED', `languageClientWrapper (${this.name}): Start was unsuccessful.`, e));
         }
         resolve(`languageClientWrapper (${this.name}): Start was successfully.`);
     }
 
+    /**
+     * Tries to re-open the web socket and to start a new languageclient until it succeeds or the maximum
+     * number of attempts is reached. The new languageclient re-sends all open documents to the server on start.
+     */
+    private async reconnect(reconnectOptions: WebSocketReconnectOptions): Promise<void> {
+        const maxAttempts = reconnectOptions.maxAttempts ?? 10;
+        this.reconnecting = true;
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            const delay = computeReconnectDelay(reconnectOptions, attempt);
+            reconnectOptions.onReconnecting?.(attempt, delay);
+            await new Promise<void>(resolve => {
+                this.reconnectTimer = setTimeout(resolve, delay);
+            });
+            if (!this.reconnecting) {
+                return;
+            }
+
+            try {
+                await this.startWithAuthRetry();
+                if (this.isStarted()) {
+                    this.reconnecting = false;
+                    reconnectOptions.onReconnected?.(attempt);
+                    return;
+                }
+            } catch (e) {
+                this.logger.warn(`languageClientWrapper (${this.name}): Reconnect attempt ${attempt} of ${maxAttempts} failed.`, e);
+            }
+        }
+        this.reconnecting = false;
+        this.logger.error(`languageClientWrapper (${this.name}): Giving up to reconnect after ${maxAttempts} attempts.`);
+        reconnectOptions.onGaveUp?.(maxAttempts);
+    }
+
+    /**
+     * Stops a pending reconnect.
+     *
+     * @returns true if a reconnect was in progress
+     */
+    private cancelReconnect(): boolean {
+        const wasReconnecting = this.reconnecting;
+        this.reconnecting = false;
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = undefined;
+        return wasReconnecting;
+    }
+
+    /**
+     * Selector of the documents synchronized with the server
+     */
+    getDocumentSelector(): DocumentSelector {
+        return this.languageClientConfig?.documentSelector ?? (this.languageId !== undefined ? [this.languageId] : []);
+    }
+
+    /**
+     * Checks whether the document with the given uri and language id is synchronized with the server.
+     */
+    matchesDocument(uri: string, languageId: string): boolean {
+        return matchDocumentSelector(this.getDocumentSelector(), uri, languageId);
+    }
+
+    /**
+     * Sends textDocument/willSave if the server requested it during initialization.
+     */
+    async notifyWillSave(uri: string): Promise<void> {
+        const textDocumentSync = this.languageClient?.initializeResult?.capabilities.textDocumentSync;
+        if (this.isStarted() && typeof textDocumentSync === 'object' && textDocumentSync.willSave) {
+            await this.languageClient!.sendNotification(WillSaveTextDocumentNotification.type, {
+                textDocument: { uri },
+                reason: TextDocumentSaveReason.Manual
+            });
+        }
+    }
+
+    /**
+     * Sends textDocument/didSave if the server synchronizes documents. The text is only included on request of the server.
+     */
+    async notifyDidSave(uri: string, text: string): Promise<void> {
+        const textDocumentSync = this.languageClient?.initializeResult?.capabilities.textDocumentSync;
+        if (!this.isStarted() || textDocumentSync === undefined || textDocumentSync === TextDocumentSyncKind.None) {
+            return;
+        }
+        const save = typeof textDocumentSync === 'object' ? textDocumentSync.save : true;
+        if (save) {
+            const includeText = typeof save === 'object' && save.includeText === true;
+            await this.languageClient!.sendNotification(DidSaveTextDocumentNotification.type, {
+                textDocument: { uri },
+                text: includeText ? text : undefined
+            });
+        }
+    }
+
     private createLanguageClient(transports: MessageTransports): MonacoLanguageClient {
+        const errorHandler = this.languageClientConfig?.errorHandler;
         return new MonacoLanguageClient({
             name: 'Monaco Wrapper Language Client',
             clientOptions: {
-                // use a language id as a document selector
-                documentSelector: [this.languageId!],
-                // disable the default error handler
+                ...this.languageClientConfig?.clientOptions,
+                // use the configured document selector or the editor's language id
+                documentSelector: this.getDocumentSelector(),
+                // disable the default error handler unless configured
                 errorHandler: {
-                    error: () => ({ action: ErrorAction.Continue }),
-                    closed: () => ({ action: CloseAction.DoNotRestart })
+                    error: (error, message, count) => errorHandler?.error?.(error, message, count) ?? { action: ErrorAction.Continue },
+                    closed: () => errorHandler?.closed?.() ?? { action: CloseAction.DoNotRestart }
                 },
                 // allow to initialize the language client with user specific options
                 initializationOptions: this.languageClientConfig?.initializationOptions
@@ -255,37 +704,53 @@ export class LanguageClientWrapper {
     }
 
     public async disposeLanguageClient(keepWorker?: boolean): Promise<void> {
+        const wasReconnecting = this.cancelReconnect();
         if (this.languageClient && this.languageClient.isRunning()) {
             try {
+                this.disposing = true;
                 await this.languageClient.dispose();
                 if (keepWorker === undefined || keepWorker === false) {
                     this.worker?.terminate();
                     this.worker = undefined;
+                    // only this connection is closed, the shared server keeps serving other languageclients
+                    if (this.ownsMessagePort) {
+                        this.messagePort?.close();
+                    }
+                    this.messagePort = undefined;
+                    this.sharedWorker = undefined;
                 }
-                this.languageClient = undefined;
                 await Promise.resolve('monaco-languageclient and monaco-editor were successfully disposed.');
             } catch (e) {
-                const languageClientError: LanguageClientError = {
-                    message: `languageClientWrapper (${this.name}): Disposing the monaco-languageclient resulted in error.`,
-                    error: (e as Error) ?? 'No error was provided.'
-                };
-                await Promise.reject(languageClientError);
+                await Promise.reject(new DisposeError('DISPOSE_FAILED', `languageClientWrapper (${this.name}): Disposing the monaco-languageclient resulted in error.`, e));
+            } finally {
+                // also if disposing failed, so closing the connection afterwards does not trigger a reconnect
+                this.languageClient = undefined;
+                this.cancelReconnect();
+                this.disposing = false;
+                this.disposeStateSubscription();
             }
+        } else if (wasReconnecting) {
+            this.languageClient = undefined;
+            this.disposeStateSubscription();
+            await Promise.resolve('Pending reconnect of monaco-languageclient was cancelled.');
+        } else {
+            await Promise.reject(new DisposeError('DISPOSE_NOT_STARTED', `languageClientWrapper (${this.name}): Unable to dispose monaco-languageclient: It is not yet started.`));
         }
-        else {
-            const languageClientError: LanguageClientError = {
-                message: `languageClientWrapper (${this.name}): Unable to dispose monaco-languageclient: It is not yet started.`,
-                error: 'No error was provided.'
-            };
-            await Promise.reject(languageClientError);
-        }
     }
 
-    reportStatus() {
-        const status: string[] = [];
-        status.push('LanguageClientWrapper status:');
-        status.push(`LanguageClient: ${this.getLanguageClient()} `);
-        status.push(`Worker: ${this.getWorker()} `);
-        return status;
+    private disposeStateSubscription() {
+        this.stateSubscription?.dispose();
+        this.stateSubscription = undefined;
+    }
+
+    getStatus(): LanguageClientStatus {
+        return {
+            name: this.name,
+            transportType: this.languageClientConfig?.options.$type,
+            state: this.languageClient?.state,
+            started: this.isStarted(),
+            haveWorker: this.worker !== undefined,
+            haveMessagePort: this.messagePort !== undefined
+        };
     }
 }
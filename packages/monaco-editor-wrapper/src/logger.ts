@@ -0,0 +1,83 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'off';
+
+export type LogEntry = {
+    level: Exclude<LogLevel, 'off'>;
+    /** Id of the wrapper that created the entry, undefined if the component is used standalone */
+    wrapperId?: string;
+    message: string;
+    data?: unknown;
+    timestamp: number;
+};
+
+export type LoggerConfig = {
+    /** Minimum level of entries passed to the handler (default: 'info') */
+    level?: LogLevel;
+    /** Receives all entries passing the level filter. The browser console is used if no handler is configured. */
+    handler?: (entry: LogEntry) => void;
+};
+
+const logLevelOrder: Record<LogLevel, number> = {
+    debug: 0,
+    info: 1,
+    warn: 2,
+    error: 3,
+    off: 4
+};
+
+const consoleHandler = (entry: LogEntry) => {
+    const prefix = entry.wrapperId !== undefined ? `[${entry.wrapperId}] ` : '';
+    if (entry.data !== undefined) {
+        console[entry.level](`${prefix}${entry.message}`, entry.data);
+    } else {
+        console[entry.level](`${prefix}${entry.message}`);
+    }
+};
+
+/**
+ * Logger shared by the wrapper, the editor apps and the languageclient wrappers.
+ * Every entry is tagged with the id of the wrapper it belongs to.
+ */
+export class Logger {
+
+    private wrapperId?: string;
+    private level: LogLevel;
+    private handler: (entry: LogEntry) => void;
+
+    constructor(wrapperId?: string, loggerConfig?: LoggerConfig) {
+        this.wrapperId = wrapperId;
+        this.level = loggerConfig?.level ?? 'info';
+        this.handler = loggerConfig?.handler ?? consoleHandler;
+    }
+
+    isEnabled(level: LogLevel): boolean {
+        return level !== 'off' && logLevelOrder[level] >= logLevelOrder[this.level];
+    }
+
+    debug(message: string, data?: unknown) {
+        this.log('debug', message, data);
+    }
+
+    info(message: string, data?: unknown) {
+        this.log('info', message, data);
+    }
+
+    warn(message: string, data?: unknown) {
+        this.log('warn', message, data);
+    }
+
+    error(message: string, data?: unknown) {
+        this.log('error', message, data);
+    }
+
+    private log(level: Exclude<LogLevel, 'off'>, message: string, data?: unknown) {
+        if (this.isEnabled(level)) {
+            this.handler({
+                level,
+                wrapperId: this.wrapperId,
+                message,
+                data,
+                timestamp: Date.now()
+            });
+        }
+    }
+}
@@ -0,0 +1,396 @@
+import { editor, Emitter, IDisposable, languages, Range } from 'monaco-editor';
+import { WrapperStateError } from './errors.js';
+
+export type MergeInput = {
+    code: string;
+    uri?: string;
+    /** Label written behind the conflict marker (default: 'ours' or 'theirs') */
+    label?: string;
+};
+
+export type MergeEditorConfig = {
+    base: MergeInput;
+    ours: MergeInput;
+    theirs: MergeInput;
+};
+
+export type MergeResolution = 'ours' | 'theirs' | 'both';
+
+/**
+ * Conflict region inside the merged text. All line numbers are 1-based and point to the marker lines.
+ */
+export type MergeConflictRegion = {
+    startLine: number;
+    separatorLine: number;
+    endLine: number;
+};
+
+export type MergeResult = {
+    text: string;
+    conflictCount: number;
+};
+
+const startMarker = '<<<<<<<';
+const separatorMarker = '=======';
+const endMarker = '>>>>>>>';
+
+type Hunk = {
+    side: 'ours' | 'theirs';
+    baseStart: number;
+    baseEnd: number;
+    start: number;
+    end: number;
+};
+
+const splitLines = (text: string) => text.length === 0 ? [] : text.split(/\r?\n/);
+
+/**
+ * Number of differing lines up to which the exact diff is computed. The memory used by the diff grows with its square.
+ */
+const MAX_DIFF_EDITS = 2000;
+
+type DiffOperation = 'keep' | 'delete' | 'insert';
+
+/**
+ * Myers' diff of a and b in O((n + m) * d) time for d differing lines. Only the frontier of each step is kept for the
+ * backtracking, so the memory is O(d^2). Returns undefined if there are more than maxEdits differing lines.
+ */
+const diffLines = (a: string[], b: string[], maxEdits: number): DiffOperation[] | undefined => {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, maxEdits);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    const frontiers: Int32Array[] = [];
+    for (let d = 0; d <= max; d++) {
+        for (let k = -d; k <= d; k += 2) {
+            // move down (insertion) or right (deletion) from the diagonal that got further
+            let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                frontiers.push(v.slice(offset - d, offset + d + 1));
+                return backtrack(frontiers, n, m);
+            }
+        }
+        frontiers.push(v.slice(offset - d, offset + d + 1));
+    }
+    return undefined;
+};
+
+const backtrack = (frontiers: Int32Array[], n: number, m: number): DiffOperation[] => {
+    const operations: DiffOperation[] = [];
+    let x = n;
+    let y = m;
+    for (let d = frontiers.length - 1; d > 0; d--) {
+        const previous = frontiers[d - 1];
+        const getX = (k: number) => previous[k + d - 1];
+        const k = x - y;
+        const previousK = (k === -d || (k !== d && getX(k - 1) < getX(k + 1))) ? k + 1 : k - 1;
+        const previousX = getX(previousK);
+        const previousY = previousX - previousK;
+        while (x > previousX && y > previousY) {
+            operations.push('keep');
+            x--;
+            y--;
+        }
+        operations.push(previousK === k + 1 ? 'insert' : 'delete');
+        x = previousX;
+        y = previousY;
+    }
+    while (x > 0 && y > 0) {
+        operations.push('keep');
+        x--;
+        y--;
+    }
+    return operations.reverse();
+};
+
+/**
+ * Computes the changed regions of side compared to base (end indices are exclusive).
+ */
+const computeHunks = (base: string[], side: string[], sideName: Hunk['side']): Hunk[] => {
+    // common prefix and suffix are trimmed before the diff is computed
+    let prefix = 0;
+    while (prefix < base.length && prefix < side.length && base[prefix] === side[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < base.length - prefix && suffix < side.length - prefix &&
+        base[base.length - 1 - suffix] === side[side.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const baseMiddle = base.slice(prefix, base.length - suffix);
+    const sideMiddle = side.slice(prefix, side.length - suffix);
+    if (baseMiddle.length === 0 && sideMiddle.length === 0) {
+        return [];
+    }
+    const operations = diffLines(baseMiddle, sideMiddle, MAX_DIFF_EDITS);
+    if (!operations) {
+        // too many differences, the whole differing part is treated as one change
+        return [{ side: sideName, baseStart: prefix, baseEnd: prefix + baseMiddle.length, start: prefix, end: prefix + sideMiddle.length }];
+    }
+
+    const hunks: Hunk[] = [];
+    let i = 0;
+    let j = 0;
+    let hunk: Hunk | undefined;
+    const closeHunk = () => {
+        if (hunk) {
+            hunk.baseEnd = prefix + i;
+            hunk.end = prefix + j;
+            hunks.push(hunk);
+            hunk = undefined;
+        }
+    };
+    for (const operation of operations) {
+        if (operation === 'keep') {
+            closeHunk();
+            i++;
+            j++;
+        } else {
+            hunk = hunk ?? { side: sideName, baseStart: prefix + i, baseEnd: 0, start: prefix + j, end: 0 };
+            if (operation === 'insert') {
+                j++;
+            } else {
+                i++;
+            }
+        }
+    }
+    closeHunk();
+    return hunks;
+};
+
+/**
+ * Returns the lines of side that replace base[regionStart, regionEnd). Outside of its hunks a side is identical to base.
+ */
+const sliceSide = (base: string[], side: string[], hunks: Hunk[], regionStart: number, regionEnd: number) => {
+    if (hunks.length === 0) {
+        return base.slice(regionStart, regionEnd);
+    }
+    const first = hunks[0];
+    const last = hunks[hunks.length - 1];
+    return side.slice(first.start - (first.baseStart - regionStart), last.end + (regionEnd - last.baseEnd));
+};
+
+/**
+ * Merges ours and theirs based on their common ancestor base. Changes made on only one side are taken over,
+ * overlapping changes are written as conflict regions using git style conflict markers.
+ */
+export const mergeThreeWay = (base: string, ours: string, theirs: string, oursLabel = 'ours', theirsLabel = 'theirs'): MergeResult => {
+    const baseLines = splitLines(base);
+    const oursLines = splitLines(ours);
+    const theirsLines = splitLines(theirs);
+    const hunks = computeHunks(baseLines, oursLines, 'ours')
+        .concat(computeHunks(baseLines, theirsLines, 'theirs'))
+        .sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+    const result: string[] = [];
+    let conflictCount = 0;
+    let basePos = 0;
+    let index = 0;
+    while (index < hunks.length) {
+        const group = [hunks[index]];
+        const regionStart = hunks[index].baseStart;
+        let regionEnd = hunks[index].baseEnd;
+        index++;
+        // adjacent changes are merged cleanly, only insertions at the boundary of a change are ambiguous
+        while (index < hunks.length && (hunks[index].baseStart < regionEnd ||
+            (hunks[index].baseStart === regionEnd && (hunks[index].baseStart === hunks[index].baseEnd || regionStart === regionEnd)))) {
+            regionEnd = Math.max(regionEnd, hunks[index].baseEnd);
+            group.push(hunks[index]);
+            index++;
+        }
+
+        result.push(...baseLines.slice(basePos, regionStart));
+        const oursRegion = sliceSide(baseLines, oursLines, group.filter(hunk => hunk.side === 'ours'), regionStart, regionEnd);
+        const theirsRegion = sliceSide(baseLines, theirsLines, group.filter(hunk => hunk.side === 'theirs'), regionStart, regionEnd);
+        const oursChanged = group.some(hunk => hunk.side === 'ours');
+        const theirsChanged = group.some(hunk => hunk.side === 'theirs');
+
+        if (!theirsChanged || oursRegion.join('\n') === theirsRegion.join('\n')) {
+            result.push(...oursRegion);
+        } else if (!oursChanged) {
+            result.push(...theirsRegion);
+        } else {
+            conflictCount++;
+            result.push(`${startMarker} ${oursLabel}`, ...oursRegion, separatorMarker, ...theirsRegion, `${endMarker} ${theirsLabel}`);
+        }
+        basePos = regionEnd;
+    }
+    result.push(...baseLines.slice(basePos));
+
+    return {
+        text: result.join('\n'),
+        conflictCount
+    };
+};
+
+/**
+ * Finds all complete conflict regions in the given text.
+ */
+export const findMergeConflicts = (text: string): MergeConflictRegion[] => {
+    const lines = splitLines(text);
+    const regions: MergeConflictRegion[] = [];
+    let startLine: number | undefined;
+    let separatorLine: number | undefined;
+    lines.forEach((line, index) => {
+        if (line.startsWith(startMarker)) {
+            startLine = index + 1;
+            separatorLine = undefined;
+        } else if (line === separatorMarker && startLine !== undefined) {
+            separatorLine = index + 1;
+        } else if (line.startsWith(endMarker) && startLine !== undefined && separatorLine !== undefined) {
+            regions.push({ startLine, separatorLine, endLine: index + 1 });
+            startLine = undefined;
+            separatorLine = undefined;
+        }
+    });
+    return regions;
+};
+
+let controllerCounter = 0;
+let styleElement: HTMLStyleElement | undefined;
+
+const ensureMergeStyles = () => {
+    if (!styleElement) {
+        styleElement = document.createElement('style');
+        styleElement.textContent = '.monaco-merge-marker { background-color: rgba(128, 128, 128, 0.2); }\n' +
+            '.monaco-merge-ours { background-color: rgba(64, 200, 174, 0.2); }\n' +
+            '.monaco-merge-theirs { background-color: rgba(64, 166, 255, 0.2); }';
+        document.head.appendChild(styleElement);
+    }
+};
+
+/**
+ * Highlights the conflict regions of a merged model and offers accept-ours, accept-theirs and accept-both actions
+ * as code lenses above each conflict.
+ */
+export class MergeConflictController {
+
+    private codeEditor: editor.ICodeEditor;
+    private model: editor.ITextModel;
+    private conflicts: MergeConflictRegion[] = [];
+    private decorations: string[] = [];
+    private disposables: IDisposable[] = [];
+    private codeLensProvider: languages.CodeLensProvider;
+
+    private onDidChangeRemainingConflictsEmitter = new Emitter<number>();
+    private onDidChangeCodeLensesEmitter = new Emitter<languages.CodeLensProvider>();
+
+    /** Fired with the number of remaining conflicts whenever it changes */
+    readonly onDidChangeRemainingConflicts = this.onDidChangeRemainingConflictsEmitter.event;
+
+    constructor(codeEditor: editor.ICodeEditor, model: editor.ITextModel) {
+        this.codeEditor = codeEditor;
+        this.model = model;
+        ensureMergeStyles();
+
+        const commandId = `monaco-editor-wrapper.merge.${++controllerCounter}.accept`;
+        this.disposables.push(editor.registerCommand(commandId, (_accessor, index: number, resolution: MergeResolution) => {
+            this.accept(index, resolution);
+        }));
+
+        this.codeLensProvider = {
+            onDidChange: this.onDidChangeCodeLensesEmitter.event,
+            provideCodeLenses: (textModel: editor.ITextModel) => {
+                if (textModel !== this.model) {
+                    return undefined;
+                }
+                const lenses: languages.CodeLens[] = [];
+                this.conflicts.forEach((conflict, index) => {
+                    const range = new Range(conflict.startLine, 1, conflict.startLine, 1);
+                    lenses.push(
+                        { range, command: { id: commandId, title: 'Accept Ours', arguments: [index, 'ours'] } },
+                        { range, command: { id: commandId, title: 'Accept Theirs', arguments: [index, 'theirs'] } },
+                        { range, command: { id: commandId, title: 'Accept Both', arguments: [index, 'both'] } }
+                    );
+                });
+                return { lenses, dispose: () => { } };
+            }
+        };
+        this.disposables.push(languages.registerCodeLensProvider(model.getLanguageId(), this.codeLensProvider));
+        this.disposables.push(model.onDidChangeContent(() => this.update()));
+        this.update();
+    }
+
+    getConflicts(): MergeConflictRegion[] {
+        return this.conflicts;
+    }
+
+    getRemainingConflictCount(): number {
+        return this.conflicts.length;
+    }
+
+    /**
+     * Replaces the conflict region with the given index by the chosen side(s).
+     */
+    accept(index: number, resolution: MergeResolution) {
+        const conflict = this.conflicts[index];
+        if (!conflict) {
+            throw new WrapperStateError('MERGE_CONFLICT_NOT_FOUND', `There is no conflict with index ${index}.`);
+        }
+
+        const oursText = this.getLines(conflict.startLine + 1, conflict.separatorLine - 1);
+        const theirsText = this.getLines(conflict.separatorLine + 1, conflict.endLine - 1);
+        const lines = resolution === 'ours' ? oursText : (resolution === 'theirs' ? theirsText : oursText.concat(theirsText));
+
+        // the line break of the end marker line is removed as well if the region is replaced by nothing
+        const lastLine = this.model.getLineCount();
+        const range = conflict.endLine < lastLine ?
+            new Range(conflict.startLine, 1, conflict.endLine + 1, 1) :
+            new Range(conflict.startLine, 1, conflict.endLine, this.model.getLineMaxColumn(conflict.endLine));
+        const eol = this.model.getEOL();
+        const text = lines.length === 0 ? '' : lines.join(eol) + (conflict.endLine < lastLine ? eol : '');
+        this.model.pushEditOperations(this.codeEditor.getSelections(), [{ range, text }], () => null);
+    }
+
+    private getLines(startLine: number, endLine: number): string[] {
+        const lines: string[] = [];
+        for (let line = startLine; line <= endLine; line++) {
+            lines.push(this.model.getLineContent(line));
+        }
+        return lines;
+    }
+
+    private update() {
+        const previousCount = this.conflicts.length;
+        this.conflicts = findMergeConflicts(this.model.getValue());
+
+        const decorations: editor.IModelDeltaDecoration[] = [];
+        for (const conflict of this.conflicts) {
+            const addDecoration = (startLine: number, endLine: number, className: string) => {
+                if (startLine <= endLine) {
+                    decorations.push({
+                        range: new Range(startLine, 1, endLine, 1),
+                        options: { isWholeLine: true, className }
+                    });
+                }
+            };
+            addDecoration(conflict.startLine, conflict.startLine, 'monaco-merge-marker');
+            addDecoration(conflict.startLine + 1, conflict.separatorLine - 1, 'monaco-merge-ours');
+            addDecoration(conflict.separatorLine, conflict.separatorLine, 'monaco-merge-marker');
+            addDecoration(conflict.separatorLine + 1, conflict.endLine - 1, 'monaco-merge-theirs');
+            addDecoration(conflict.endLine, conflict.endLine, 'monaco-merge-marker');
+        }
+        this.decorations = this.model.deltaDecorations(this.decorations, decorations);
+        this.onDidChangeCodeLensesEmitter.fire(this.codeLensProvider);
+
+        if (previousCount !== this.conflicts.length) {
+            this.onDidChangeRemainingConflictsEmitter.fire(this.conflicts.length);
+        }
+    }
+
+    dispose() {
+        this.decorations = this.model.deltaDecorations(this.decorations, []);
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.onDidChangeRemainingConflictsEmitter.dispose();
+        this.onDidChangeCodeLensesEmitter.dispose();
+    }
+}
@@ -0,0 +1,128 @@
+import { IDisposable } from 'monaco-editor';
+import { MonacoLanguageClient } from 'monaco-languageclient';
+import { CancellationToken, ErrorCodes, ResponseError } from 'vscode-languageserver-protocol/browser.js';
+import { WrapperConfigError } from './errors.js';
+
+export type LanguageClientNotificationHandler<P = unknown> = (params: P, name: string) => void;
+
+export type LanguageClientRequestHandler<P = unknown, R = unknown> = (params: P, token: CancellationToken, name: string) => R | Promise<R>;
+
+type Registration<H> = {
+    /** Name of the languageclient, all languageclients if undefined */
+    name?: string;
+    handler: H;
+};
+
+const matchesName = (registration: Registration<unknown>, name: string) => {
+    return registration.name === undefined || registration.name === name;
+};
+
+/**
+ * Keeps the handlers of custom notifications and server-initiated requests independent of the languageclient
+ * instances. A languageclient only takes one handler per method, so one dispatcher per method is registered on every
+ * newly created languageclient, also on restart and reconnect.
+ */
+export class LanguageClientMessageHandlers {
+
+    private notificationHandlers: Map<string, Array<Registration<LanguageClientNotificationHandler>>> = new Map();
+    private requestHandlers: Map<string, Array<Registration<LanguageClientRequestHandler>>> = new Map();
+    // current languageclient and its dispatchers by languageclient name
+    private languageClients: Map<string, { languageClient: MonacoLanguageClient, dispatchers: Map<string, IDisposable> }> = new Map();
+
+    /**
+     * Registers the dispatchers of all methods on a newly created languageclient. Call it before the languageclient
+     * is started, so no notification sent during the initialization is missed.
+     */
+    attach(name: string, languageClient: MonacoLanguageClient) {
+        this.detach(name);
+        this.languageClients.set(name, { languageClient, dispatchers: new Map() });
+        for (const method of this.notificationHandlers.keys()) {
+            this.registerNotificationDispatcher(name, method);
+        }
+        for (const method of this.requestHandlers.keys()) {
+            this.registerRequestDispatcher(name, method);
+        }
+    }
+
+    onNotification<P>(method: string, handler: LanguageClientNotificationHandler<P>, name?: string): IDisposable {
+        const registration: Registration<LanguageClientNotificationHandler> = { name, handler: handler as LanguageClientNotificationHandler };
+        const registrations = this.notificationHandlers.get(method) ?? [];
+        registrations.push(registration);
+        this.notificationHandlers.set(method, registrations);
+        for (const clientName of this.languageClients.keys()) {
+            this.registerNotificationDispatcher(clientName, method);
+        }
+        return {
+            dispose: () => this.remove(this.notificationHandlers, method, registration)
+        };
+    }
+
+    onRequest<P, R>(method: string, handler: LanguageClientRequestHandler<P, R>, name?: string): IDisposable {
+        const registrations = this.requestHandlers.get(method) ?? [];
+        if (registrations.some(existing => existing.name === undefined || name === undefined || existing.name === name)) {
+            throw new WrapperConfigError('CONFIG_DUPLICATE_HANDLER', `A handler for the request "${method}" is already registered.`);
+        }
+        const registration: Registration<LanguageClientRequestHandler> = { name, handler: handler as LanguageClientRequestHandler };
+        registrations.push(registration);
+        this.requestHandlers.set(method, registrations);
+        for (const clientName of this.languageClients.keys()) {
+            this.registerRequestDispatcher(clientName, method);
+        }
+        return {
+            dispose: () => this.remove(this.requestHandlers, method, registration)
+        };
+    }
+
+    private registerNotificationDispatcher(name: string, method: string) {
+        const client = this.languageClients.get(name);
+        if (!client || client.dispatchers.has(`notification:${method}`)) {
+            return;
+        }
+        client.dispatchers.set(`notification:${method}`, client.languageClient.onNotification(method, (params: unknown) => {
+            for (const registration of this.notificationHandlers.get(method) ?? []) {
+                if (matchesName(registration, name)) {
+                    registration.handler(params, name);
+                }
+            }
+        }));
+    }
+
+    private registerRequestDispatcher(name: string, method: string) {
+        const client = this.languageClients.get(name);
+        if (!client || client.dispatchers.has(`request:${method}`)) {
+            return;
+        }
+        client.dispatchers.set(`request:${method}`, client.languageClient.onRequest(method, (params: unknown, token: CancellationToken) => {
+            const registration = this.requestHandlers.get(method)?.find(registration => matchesName(registration, name));
+            if (!registration) {
+                return new ResponseError(ErrorCodes.MethodNotFound, `Unhandled method ${method}`);
+            }
+            return registration.handler(params, token, name);
+        }));
+    }
+
+    private remove<H>(handlers: Map<string, Array<Registration<H>>>, method: string, registration: Registration<H>) {
+        const registrations = handlers.get(method)?.filter(existing => existing !== registration) ?? [];
+        if (registrations.length > 0) {
+            handlers.set(method, registrations);
+        } else {
+            handlers.delete(method);
+        }
+    }
+
+    private detach(name: string) {
+        this.languageClients.get(name)?.dispatchers.forEach(dispatcher => dispatcher.dispose());
+        this.languageClients.delete(name);
+    }
+
+    /**
+     * Removes all handlers and dispatchers.
+     */
+    dispose() {
+        for (const name of Array.from(this.languageClients.keys())) {
+            this.detach(name);
+        }
+        this.notificationHandlers.clear();
+        this.requestHandlers.clear();
+    }
+}
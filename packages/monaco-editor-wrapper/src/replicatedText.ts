@@ -0,0 +1,581 @@
+/**
+ * Identifies a character of the shared document or a change of its visibility. The clock is a Lamport clock, so a
+ * character always has a higher id than the character it was inserted after.
+ */
+export type CollaborationId = {
+    siteId: string;
+    clock: number;
+};
+
+/** The characters with the ids id.clock to id.clock + length - 1 */
+export type CollaborationSpan = {
+    id: CollaborationId;
+    length: number;
+};
+
+/**
+ * A change of the shared document. Inserted text gets the ids id.clock to id.clock + text.length - 1, each character
+ * is inserted after the previous one and the first one after origin or at the start.
+ * Deleted characters are kept as tombstones, so undo can restore them. Of concurrent deletes and restores of the same
+ * character the one with the highest stamp wins.
+ */
+export type CollaborationOperation = CollaborationInsert | CollaborationVisibilityChange;
+
+export type CollaborationInsert = { type: 'insert', id: CollaborationId, origin?: CollaborationId, text: string };
+
+export type CollaborationVisibilityChange = { type: 'delete' | 'restore', spans: CollaborationSpan[], stamp: CollaborationId };
+
+/**
+ * Operations of one participant sent together. previous is the clock of the last change the participant sent before,
+ * so the changes of a participant are applied in the order they were made.
+ */
+export type CollaborationChange = {
+    siteId: string;
+    previous: number;
+    operations: CollaborationOperation[];
+};
+
+/** Characters of the shared document with consecutive ids, including deleted ones */
+export type CollaborationElement = {
+    id: CollaborationId;
+    text: string;
+    visible: boolean;
+    stamp?: CollaborationId;
+};
+
+/**
+ * Clock of the last applied change of every site. All earlier changes of the site were applied as well.
+ */
+export type CollaborationVersion = Record<string, number>;
+
+/**
+ * Content of the shared document, as exchanged when a participant joins. Changes that could not be applied yet are
+ * part of it as well.
+ */
+export type CollaborationState = {
+    elements: CollaborationElement[];
+    version: CollaborationVersion;
+    pending: CollaborationChange[];
+};
+
+/**
+ * A replacement of length characters at offset with text, applied one after the other
+ */
+export type TextEdit = {
+    offset: number;
+    length: number;
+    text: string;
+};
+
+/** Site id of the characters of the initial content, which is the same for all participants */
+const INITIAL_SITE_ID = '';
+
+/** Blocks are split when they contain more runs */
+const MAX_BLOCK_SIZE = 64;
+
+/** Characters with consecutive ids of one site that are next to each other and have the same visibility */
+type Run = {
+    siteId: string;
+    clock: number;
+    text: string;
+    visible: boolean;
+    stamp?: CollaborationId;
+    block: Block;
+};
+
+/** Consecutive runs, so finding an offset skips whole blocks */
+type Block = {
+    runs: Run[];
+    /** Number of visible characters */
+    length: number;
+};
+
+/** Position between runs, before block.runs[index] */
+type Position = {
+    block: Block;
+    index: number;
+};
+
+type PendingChange = CollaborationChange & {
+    /** Clock of the last operation */
+    end: number;
+    /** Number of operations that were applied already */
+    applied: number;
+};
+
+const compareIds = (a: CollaborationId, b: CollaborationId) => {
+    return a.clock - b.clock || (a.siteId < b.siteId ? -1 : a.siteId > b.siteId ? 1 : 0);
+};
+
+const getEnd = (operation: CollaborationOperation) => {
+    return operation.type === 'insert' ? operation.id.clock + operation.text.length - 1 : operation.stamp.clock;
+};
+
+/**
+ * Replicated growable array (RGA) of the characters of a document. All participants applying the same operations end
+ * up with the same text, no matter in which order concurrent operations are delivered. Operations referencing
+ * characters that are not yet known are kept until they can be applied.
+ *
+ * Characters are stored as runs in blocks, so the costs of an operation grow with the number of runs in a block and
+ * the number of blocks instead of the number of characters. Tombstones are removed by collect once no participant
+ * refers to them anymore.
+ */
+export class ReplicatedText {
+
+    private siteId: string;
+    private clock = 0;
+    private blocks: Block[] = [];
+    /** The runs of every site ordered by clock, to find the run of an id */
+    private runsBySite: Map<string, Run[]> = new Map();
+    private version: CollaborationVersion = {};
+    private pending: PendingChange[] = [];
+
+    constructor(siteId: string, content: string) {
+        this.siteId = siteId;
+        this.reset({
+            elements: content.length > 0 ? [{ id: { siteId: INITIAL_SITE_ID, clock: 1 }, text: content, visible: true }] : [],
+            version: {},
+            pending: []
+        });
+    }
+
+    /**
+     * Replaces the whole state, e.g. by the one of a participant that joined earlier. Kept operations that became
+     * applicable are applied, so the text has to be read again afterwards.
+     */
+    reset(state: CollaborationState) {
+        this.setRuns(state.elements.map(element => ({
+            siteId: element.id.siteId,
+            clock: element.id.clock,
+            text: element.text,
+            visible: element.visible,
+            stamp: element.stamp
+        })));
+        this.version = { ...state.version };
+        for (const element of state.elements) {
+            this.observe(element.id.clock + element.text.length - 1);
+            this.observe(element.stamp?.clock ?? 0);
+        }
+        // operations applied before are contained in the state or have to be applied again
+        this.pending.forEach(change => change.applied = 0);
+        state.pending.forEach(change => this.addPending(change));
+        this.applyPending([]);
+    }
+
+    getState(): CollaborationState {
+        return {
+            elements: this.blocks.flatMap(block => block.runs.map(run => ({
+                id: { siteId: run.siteId, clock: run.clock },
+                text: run.text,
+                visible: run.visible,
+                stamp: run.stamp
+            }))),
+            version: this.getVersion(),
+            pending: this.pending.map(({ siteId, previous, operations }) => ({ siteId, previous, operations }))
+        };
+    }
+
+    getVersion(): CollaborationVersion {
+        return { ...this.version };
+    }
+
+    getText(): string {
+        return this.blocks.map(block => block.runs.filter(run => run.visible).map(run => run.text).join('')).join('');
+    }
+
+    private nextId(): CollaborationId {
+        return { siteId: this.siteId, clock: ++this.clock };
+    }
+
+    private observe(clock: number) {
+        this.clock = Math.max(this.clock, clock);
+    }
+
+    /**
+     * Records text inserted into the local copy at offset.
+     */
+    insertLocal(offset: number, text: string): CollaborationInsert {
+        let origin: CollaborationId | undefined;
+        if (offset > 0) {
+            const { run, index } = this.locate(offset - 1)!;
+            origin = { siteId: run.siteId, clock: run.clock + index };
+        }
+        const id = this.nextId();
+        this.clock += text.length - 1;
+        // all known ids are lower, so the new characters directly follow the origin
+        this.integrateInsert(id, origin, text);
+        this.version[this.siteId] = this.clock;
+        return { type: 'insert', id, origin, text };
+    }
+
+    /**
+     * Records length characters deleted from the local copy at offset.
+     */
+    deleteLocal(offset: number, length: number): CollaborationVisibilityChange {
+        const spans: CollaborationSpan[] = [];
+        const stamp = this.nextId();
+        for (let remaining = length; remaining > 0;) {
+            // the deleted characters are no longer visible, so the next one is at the same offset
+            const located = this.locate(offset)!;
+            let run = located.run;
+            if (located.index > 0) {
+                run = this.splitRun(run, located.index);
+            }
+            if (run.text.length > remaining) {
+                this.splitRun(run, remaining);
+            }
+            this.setRunVisible(run, false, stamp);
+            const last = spans[spans.length - 1];
+            if (last !== undefined && last.id.siteId === run.siteId && last.id.clock + last.length === run.clock) {
+                last.length += run.text.length;
+            } else {
+                spans.push({ id: { siteId: run.siteId, clock: run.clock }, length: run.text.length });
+            }
+            remaining -= run.text.length;
+        }
+        this.version[this.siteId] = this.clock;
+        return { type: 'delete', spans, stamp };
+    }
+
+    /**
+     * Deletes or restores the given characters, e.g. to undo a local change.
+     *
+     * @returns the operation to send and the edits to apply to the local copy
+     */
+    setVisible(spans: CollaborationSpan[], visible: boolean): { operation: CollaborationOperation, edits: TextEdit[] } {
+        const operation: CollaborationVisibilityChange = { type: visible ? 'restore' : 'delete', spans, stamp: this.nextId() };
+        const edits: TextEdit[] = [];
+        this.integrateVisibility(spans, visible, operation.stamp, edits);
+        this.version[this.siteId] = this.clock;
+        return { operation, edits };
+    }
+
+    /**
+     * Applies a change of another participant and all kept changes that became applicable by it.
+     *
+     * @returns the edits to apply to the local copy
+     */
+    apply(change: CollaborationChange): TextEdit[] {
+        const edits: TextEdit[] = [];
+        this.addPending(change);
+        this.applyPending(edits);
+        return edits;
+    }
+
+    private addPending({ siteId, previous, operations }: CollaborationChange) {
+        this.pending.push({ siteId, previous, operations, end: Math.max(0, ...operations.map(getEnd)), applied: 0 });
+    }
+
+    private applyPending(edits: TextEdit[]) {
+        let progress = true;
+        while (progress) {
+            progress = false;
+            for (const change of this.pending) {
+                const version = this.version[change.siteId] ?? 0;
+                if (change.end > version && change.previous <= version) {
+                    while (change.applied < change.operations.length && this.tryApply(change.operations[change.applied], edits)) {
+                        change.applied++;
+                        progress = true;
+                    }
+                    if (change.applied === change.operations.length) {
+                        this.version[change.siteId] = change.end;
+                    }
+                }
+                // changes that are contained in the state of another participant are dropped as well
+                if ((this.version[change.siteId] ?? 0) >= change.end) {
+                    this.pending = this.pending.filter(other => other !== change);
+                    progress = true;
+                    break;
+                }
+            }
+        }
+    }
+
+    private tryApply(operation: CollaborationOperation, edits: TextEdit[]): boolean {
+        if (operation.type === 'insert') {
+            if (operation.origin && !this.findRun(operation.origin)) {
+                return false;
+            }
+            const offset = this.integrateInsert(operation.id, operation.origin, operation.text);
+            if (offset !== undefined) {
+                const last = edits[edits.length - 1];
+                if (last !== undefined && last.length === 0 && last.offset + last.text.length === offset) {
+                    last.text += operation.text;
+                } else {
+                    edits.push({ offset, length: 0, text: operation.text });
+                }
+            }
+        } else {
+            if (!operation.spans.every(span => this.isKnown(span))) {
+                return false;
+            }
+            this.integrateVisibility(operation.spans, operation.type === 'restore', operation.stamp, edits);
+        }
+        return true;
+    }
+
+    /**
+     * @returns the offset of the inserted text or undefined if it was already known
+     */
+    private integrateInsert(id: CollaborationId, origin: CollaborationId | undefined, text: string): number | undefined {
+        if (this.findRun(id)) {
+            return undefined;
+        }
+        this.observe(id.clock + text.length - 1);
+
+        let position: Position = { block: this.blocks[0], index: 0 };
+        let previous: Run | undefined;
+        if (origin) {
+            const run = this.findRun(origin)!;
+            const index = origin.clock - run.clock;
+            // the following characters of the run have ascending ids, so all or none of them are skipped
+            if (index < run.text.length - 1 && compareIds({ siteId: run.siteId, clock: origin.clock + 1 }, id) < 0) {
+                this.splitRun(run, index + 1);
+            }
+            position = this.getPositionAfter(run);
+            previous = run;
+        }
+        // concurrent insertions after the same character are ordered by descending id, the characters inserted after
+        // a character have higher ids than it, so whole runs are skipped
+        for (let next = this.getRunAt(position); next && compareIds({ siteId: next.siteId, clock: next.clock }, id) > 0; next = this.getRunAt(position)) {
+            position = this.getPositionAfter(next);
+            previous = next;
+        }
+
+        if (previous !== undefined && origin !== undefined && previous.siteId === id.siteId && previous.clock + previous.text.length === id.clock &&
+            previous.siteId === origin.siteId && previous.clock + previous.text.length - 1 === origin.clock && previous.visible && !previous.stamp) {
+            // typed text continues the run
+            const offset = this.getOffset(previous) + previous.text.length;
+            previous.text += text;
+            previous.block.length += text.length;
+            return offset;
+        }
+        const run: Run = { siteId: id.siteId, clock: id.clock, text, visible: true, block: position.block };
+        this.insertRun(run, position);
+        return this.getOffset(run);
+    }
+
+    private integrateVisibility(spans: CollaborationSpan[], visible: boolean, stamp: CollaborationId, edits: TextEdit[]) {
+        this.observe(stamp.clock);
+        for (const span of spans) {
+            const end = span.id.clock + span.length;
+            for (let clock = span.id.clock; clock < end;) {
+                let run = this.findRun({ siteId: span.id.siteId, clock });
+                if (!run) {
+                    break;
+                }
+                if (run.clock < clock) {
+                    run = this.splitRun(run, clock - run.clock);
+                }
+                if (run.clock + run.text.length > end) {
+                    this.splitRun(run, end - run.clock);
+                }
+                clock = run.clock + run.text.length;
+                if (run.stamp !== undefined && compareIds(stamp, run.stamp) <= 0) {
+                    continue;
+                }
+                if (run.visible === visible) {
+                    run.stamp = stamp;
+                    continue;
+                }
+                const offset = this.getOffset(run);
+                this.setRunVisible(run, visible, stamp);
+                const last = edits[edits.length - 1];
+                if (visible) {
+                    if (last !== undefined && last.length === 0 && last.offset + last.text.length === offset) {
+                        last.text += run.text;
+                    } else {
+                        edits.push({ offset, length: 0, text: run.text });
+                    }
+                } else if (last !== undefined && last.text.length === 0 && last.offset === offset) {
+                    last.length += run.text.length;
+                } else {
+                    edits.push({ offset, length: run.text.length, text: '' });
+                }
+            }
+        }
+    }
+
+    /**
+     * Removes the tombstones whose deletion is stable, i.e. all participants have seen it and none of them can restore
+     * the characters anymore. Neighbouring runs are joined afterwards.
+     */
+    collect(isStable: (stamp: CollaborationId) => boolean) {
+        const runs: Array<Omit<Run, 'block'>> = [];
+        for (const block of this.blocks) {
+            for (const run of block.runs) {
+                if (!run.visible && run.stamp && isStable(run.stamp)) {
+                    continue;
+                }
+                const last = runs[runs.length - 1];
+                if (last !== undefined && last.siteId === run.siteId && last.clock + last.text.length === run.clock && last.visible === run.visible &&
+                    last.stamp?.siteId === run.stamp?.siteId && last.stamp?.clock === run.stamp?.clock) {
+                    last.text += run.text;
+                } else {
+                    runs.push({ ...run });
+                }
+            }
+        }
+        this.setRuns(runs);
+    }
+
+    /**
+     * Replaces all runs, the blocks are half full afterwards. There is always at least one block.
+     */
+    private setRuns(runs: Array<Omit<Run, 'block'>>) {
+        this.blocks = [];
+        this.runsBySite = new Map();
+        for (let i = 0; i === 0 || i < runs.length; i += MAX_BLOCK_SIZE / 2) {
+            const block: Block = { runs: [], length: 0 };
+            for (const element of runs.slice(i, i + MAX_BLOCK_SIZE / 2)) {
+                const run: Run = { ...element, block };
+                block.runs.push(run);
+                block.length += run.visible ? run.text.length : 0;
+                const siteRuns = this.runsBySite.get(run.siteId);
+                if (siteRuns) {
+                    siteRuns.push(run);
+                } else {
+                    this.runsBySite.set(run.siteId, [run]);
+                }
+            }
+            this.blocks.push(block);
+        }
+        this.runsBySite.forEach(siteRuns => siteRuns.sort((a, b) => a.clock - b.clock));
+    }
+
+    /**
+     * Binary search for the index of the run of the site that contains clock or would be inserted for it
+     */
+    private searchSiteRuns(siteRuns: Run[], clock: number): number {
+        let low = 0;
+        let high = siteRuns.length;
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+            if (siteRuns[middle].clock + siteRuns[middle].text.length <= clock) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        return low;
+    }
+
+    private findRun(id: CollaborationId): Run | undefined {
+        const siteRuns = this.runsBySite.get(id.siteId) ?? [];
+        const run = siteRuns[this.searchSiteRuns(siteRuns, id.clock)] as Run | undefined;
+        return run !== undefined && run.clock <= id.clock ? run : undefined;
+    }
+
+    /**
+     * Whether all characters of the span are known. They may have been inserted by different operations.
+     */
+    private isKnown(span: CollaborationSpan): boolean {
+        for (let clock = span.id.clock; clock < span.id.clock + span.length;) {
+            const run = this.findRun({ siteId: span.id.siteId, clock });
+            if (!run) {
+                return false;
+            }
+            clock = run.clock + run.text.length;
+        }
+        return true;
+    }
+
+    /**
+     * Finds the visible character at offset.
+     */
+    private locate(offset: number): { run: Run, index: number } | undefined {
+        for (const block of this.blocks) {
+            if (offset >= block.length) {
+                offset -= block.length;
+                continue;
+            }
+            for (const run of block.runs) {
+                if (run.visible) {
+                    if (offset < run.text.length) {
+                        return { run, index: offset };
+                    }
+                    offset -= run.text.length;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Number of visible characters before the run
+     */
+    private getOffset(run: Run): number {
+        let offset = 0;
+        for (const block of this.blocks) {
+            if (block === run.block) {
+                break;
+            }
+            offset += block.length;
+        }
+        for (const other of run.block.runs) {
+            if (other === run) {
+                break;
+            }
+            offset += other.visible ? other.text.length : 0;
+        }
+        return offset;
+    }
+
+    private getPositionAfter(run: Run): Position {
+        return { block: run.block, index: run.block.runs.indexOf(run) + 1 };
+    }
+
+    private getRunAt(position: Position): Run | undefined {
+        if (position.index < position.block.runs.length) {
+            return position.block.runs[position.index];
+        }
+        const next = this.blocks[this.blocks.indexOf(position.block) + 1] as Block | undefined;
+        return next?.runs[0];
+    }
+
+    private insertRun(run: Run, position: Position) {
+        const block = position.block;
+        block.runs.splice(position.index, 0, run);
+        block.length += run.visible ? run.text.length : 0;
+        run.block = block;
+
+        const siteRuns = this.runsBySite.get(run.siteId);
+        if (siteRuns) {
+            siteRuns.splice(this.searchSiteRuns(siteRuns, run.clock), 0, run);
+        } else {
+            this.runsBySite.set(run.siteId, [run]);
+        }
+
+        if (block.runs.length > MAX_BLOCK_SIZE) {
+            const next: Block = { runs: block.runs.splice(MAX_BLOCK_SIZE / 2), length: 0 };
+            for (const moved of next.runs) {
+                moved.block = next;
+                next.length += moved.visible ? moved.text.length : 0;
+            }
+            block.length -= next.length;
+            this.blocks.splice(this.blocks.indexOf(block) + 1, 0, next);
+        }
+    }
+
+    /**
+     * Splits the run after index characters.
+     *
+     * @returns the run of the characters after index
+     */
+    private splitRun(run: Run, index: number): Run {
+        const second: Run = { ...run, clock: run.clock + index, text: run.text.substring(index) };
+        run.text = run.text.substring(0, index);
+        // the visible characters of the block stay the same
+        run.block.length -= second.visible ? second.text.length : 0;
+        this.insertRun(second, this.getPositionAfter(run));
+        return second;
+    }
+
+    private setRunVisible(run: Run, visible: boolean, stamp: CollaborationId) {
+        if (run.visible !== visible) {
+            run.block.length += visible ? run.text.length : -run.text.length;
+            run.visible = visible;
+        }
+        run.stamp = stamp;
+    }
+}
@@ -0,0 +1,369 @@
+import { InitializeServiceConfig } from 'monaco-languageclient';
+import { EditorAppConfigClassic } from './editorAppClassic.js';
+import { EditorAppConfigVscodeApi } from './editorAppVscodeApi.js';
+import { EditorStateConfig, IndexedDbEditorStateStorage, LocalStorageEditorStateStorage, MemoryEditorStateStorage } from './editorState.js';
+import { LanguageClientClientOptions, LanguageClientConfig, SharedWorkerConfigOptions, WebSocketConfigOptions, WebSocketConfigOptionsUrl, WebSocketReconnectOptions, WorkerConfigOptions } from './languageClientWrapper.js';
+import { LogLevel } from './logger.js';
+import { UserConfig } from './wrapper.js';
+import { WrapperConfigError } from './errors.js';
+
+export type SerializedServiceConfig = Omit<InitializeServiceConfig, 'configureEditorOrViewsService' | 'configureTerminalService' | 'configureStorageService' | 'userServices'> & {
+    configureEditorOrViewsService?: {
+        enableViewsService?: boolean;
+    };
+};
+
+/** Regular expressions of monarch definitions are stored as source and flags */
+export type SerializedRegExp = {
+    $regexp: string;
+    flags: string;
+};
+
+/** Either the content of the file or the url it is loaded from */
+export type SerializedExtensionFile = string | { url: string };
+
+export type SerializedEditorAppConfigClassic = Omit<EditorAppConfigClassic, 'languageDef'> & {
+    languageDef?: unknown;
+};
+
+export type SerializedEditorAppConfigVscodeApi = Omit<EditorAppConfigVscodeApi, 'extensionFilesOrContents'> & {
+    extensionFilesOrContents?: Record<string, SerializedExtensionFile>;
+};
+
+export type SerializedWebSocketReconnectOptions = Omit<WebSocketReconnectOptions, 'onReconnecting' | 'onReconnected' | 'onGaveUp'>;
+
+export type SerializedWebSocketConfigOptions = Omit<WebSocketConfigOptions, 'startOptions' | 'stopOptions' | 'reconnectOptions' | 'tokenProvider' | 'onAuthFailure'> & {
+    reconnectOptions?: SerializedWebSocketReconnectOptions;
+};
+
+export type SerializedWebSocketConfigOptionsUrl = Omit<WebSocketConfigOptionsUrl, 'startOptions' | 'stopOptions' | 'reconnectOptions' | 'tokenProvider' | 'onAuthFailure'> & {
+    reconnectOptions?: SerializedWebSocketReconnectOptions;
+};
+
+/** Worker url, relative urls are resolved against the base url given to loadUserConfig */
+export type SerializedWorkerConfigOptions = Omit<WorkerConfigOptions, 'url'> & {
+    url: string;
+};
+
+export type SerializedSharedWorkerConfigOptions = Omit<SharedWorkerConfigOptions, 'url'> & {
+    url: string;
+};
+
+export type SerializedLanguageClientConfig = Omit<LanguageClientConfig, 'options' | 'trafficRecorder' | 'clientOptions' | 'errorHandler'> & {
+    clientOptions?: Pick<LanguageClientClientOptions, 'diagnosticCollectionName'>;
+    options: SerializedWebSocketConfigOptions | SerializedWebSocketConfigOptionsUrl | SerializedWorkerConfigOptions | SerializedSharedWorkerConfigOptions;
+};
+
+export type SerializedEditorStateStorage =
+    { type: 'memory' } |
+    { type: 'localStorage', keyPrefix?: string } |
+    { type: 'indexedDb', databaseName?: string };
+
+/**
+ * The part of the UserConfig that can be stored as JSON or YAML file. Live objects like the html element are
+ * passed to loadUserConfig. Workers are described by their url, DOM workers, ports and in-process servers
+ * cannot be stored.
+ */
+export type SerializedUserConfig = {
+    id?: string;
+    wrapperConfig: {
+        serviceConfig?: SerializedServiceConfig;
+        editorAppConfig: SerializedEditorAppConfigClassic | SerializedEditorAppConfigVscodeApi;
+    };
+    languageClientConfig?: SerializedLanguageClientConfig;
+    languageClientConfigs?: Record<string, SerializedLanguageClientConfig>;
+    logger?: {
+        level?: LogLevel;
+    };
+    editorStateConfig?: {
+        restoreContent?: boolean;
+        storage?: SerializedEditorStateStorage;
+    };
+};
+
+export type UserConfigLoadOptions = {
+    htmlElement: HTMLElement;
+    /** Relative worker and extension file urls are resolved against it. Defaults to the location of the page. */
+    baseUrl?: string | URL;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null;
+};
+
+const serializeRegExps = (value: unknown): unknown => {
+    if (value instanceof RegExp) {
+        const serializedRegExp: SerializedRegExp = { $regexp: value.source, flags: value.flags };
+        return serializedRegExp;
+    } else if (Array.isArray(value)) {
+        return value.map(serializeRegExps);
+    } else if (isObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, serializeRegExps(entry)]));
+    }
+    return value;
+};
+
+const deserializeRegExps = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+        return value.map(deserializeRegExps);
+    } else if (isObject(value)) {
+        if (typeof value.$regexp === 'string' && typeof value.flags === 'string') {
+            return new RegExp(value.$regexp, value.flags);
+        }
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, deserializeRegExps(entry)]));
+    }
+    return value;
+};
+
+const getBaseUrl = (options: UserConfigLoadOptions) => {
+    return options.baseUrl ?? window.location.href;
+};
+
+const loadLanguageClientConfig = (serializedConfig: SerializedLanguageClientConfig, options: UserConfigLoadOptions): LanguageClientConfig => {
+    const serializedOptions = serializedConfig.options;
+    if (serializedOptions.$type === 'WorkerConfig' || serializedOptions.$type === 'SharedWorkerConfig') {
+        return {
+            ...serializedConfig,
+            options: {
+                ...serializedOptions,
+                url: new URL(serializedOptions.url, getBaseUrl(options))
+            }
+        };
+    }
+    return { ...serializedConfig, options: { ...serializedOptions } };
+};
+
+const loadEditorStateConfig = (serializedConfig: NonNullable<SerializedUserConfig['editorStateConfig']>): EditorStateConfig => {
+    const editorStateConfig: EditorStateConfig = {
+        restoreContent: serializedConfig.restoreContent
+    };
+    switch (serializedConfig.storage?.type) {
+        case 'memory':
+            editorStateConfig.storage = new MemoryEditorStateStorage();
+            break;
+        case 'localStorage':
+            editorStateConfig.storage = new LocalStorageEditorStateStorage(serializedConfig.storage.keyPrefix);
+            break;
+        case 'indexedDb':
+            editorStateConfig.storage = new IndexedDbEditorStateStorage(serializedConfig.storage.databaseName);
+            break;
+    }
+    return editorStateConfig;
+};
+
+/**
+ * Creates a UserConfig from a serialized config. Strings are parsed as JSON, configs stored as YAML have to be
+ * parsed by the caller.
+ */
+export const loadUserConfig = (serializedConfig: SerializedUserConfig | string, options: UserConfigLoadOptions): UserConfig => {
+    let config: SerializedUserConfig;
+    if (typeof serializedConfig === 'string') {
+        try {
+            config = JSON.parse(serializedConfig) as SerializedUserConfig;
+        } catch (e) {
+            throw new WrapperConfigError('CONFIG_INVALID', 'The serialized config is not valid JSON.', e);
+        }
+    } else {
+        config = serializedConfig;
+    }
+
+    const serializedAppConfig = config.wrapperConfig?.editorAppConfig;
+    let editorAppConfig: EditorAppConfigClassic | EditorAppConfigVscodeApi;
+    if (serializedAppConfig?.$type === 'vscodeApi') {
+        const { extensionFilesOrContents, ...appConfig } = serializedAppConfig;
+        editorAppConfig = { ...appConfig };
+        if (extensionFilesOrContents) {
+            editorAppConfig.extensionFilesOrContents = new Map(Object.entries(extensionFilesOrContents).map(([path, file]) => {
+                return [path, typeof file === 'string' ? file : new URL(file.url, getBaseUrl(options))];
+            }));
+        }
+    } else {
+        const { languageDef, ...appConfig } = serializedAppConfig as SerializedEditorAppConfigClassic;
+        editorAppConfig = { ...appConfig };
+        if (languageDef !== undefined) {
+            editorAppConfig.languageDef = deserializeRegExps(languageDef) as EditorAppConfigClassic['languageDef'];
+        }
+    }
+
+    const userConfig: UserConfig = {
+        id: config.id,
+        htmlElement: options.htmlElement,
+        wrapperConfig: {
+            serviceConfig: config.wrapperConfig?.serviceConfig ? { ...config.wrapperConfig.serviceConfig } : undefined,
+            editorAppConfig
+        }
+    };
+    if (config.languageClientConfig) {
+        userConfig.languageClientConfig = loadLanguageClientConfig(config.languageClientConfig, options);
+    }
+    if (config.languageClientConfigs) {
+        userConfig.languageClientConfigs = Object.fromEntries(Object.entries(config.languageClientConfigs)
+            .map(([name, languageClientConfig]) => [name, loadLanguageClientConfig(languageClientConfig, options)]));
+    }
+    if (config.logger) {
+        userConfig.logger = { ...config.logger };
+    }
+    if (config.editorStateConfig) {
+        userConfig.editorStateConfig = loadEditorStateConfig(config.editorStateConfig);
+    }
+    return userConfig;
+};
+
+const serializeLanguageClientConfig = (config: LanguageClientConfig, path: string, livePaths: string[]): SerializedLanguageClientConfig | undefined => {
+    const { options, trafficRecorder, clientOptions, errorHandler, ...plainConfig } = config;
+    const languageClientConfig: Omit<SerializedLanguageClientConfig, 'options'> = plainConfig;
+    if (trafficRecorder) {
+        livePaths.push(`${path}.trafficRecorder`);
+    }
+    if (errorHandler) {
+        livePaths.push(`${path}.errorHandler`);
+    }
+    if (clientOptions) {
+        const { diagnosticCollectionName, ...liveClientOptions } = clientOptions;
+        for (const key of Object.keys(liveClientOptions)) {
+            livePaths.push(`${path}.clientOptions.${key}`);
+        }
+        if (diagnosticCollectionName !== undefined) {
+            languageClientConfig.clientOptions = { diagnosticCollectionName };
+        }
+    }
+    switch (options.$type) {
+        case 'WebSocket':
+        case 'WebSocketUrl': {
+            const { startOptions, stopOptions, reconnectOptions, tokenProvider, onAuthFailure, ...socketOptions } = options;
+            if (startOptions) {
+                livePaths.push(`${path}.options.startOptions`);
+            }
+            if (stopOptions) {
+                livePaths.push(`${path}.options.stopOptions`);
+            }
+            if (tokenProvider) {
+                livePaths.push(`${path}.options.tokenProvider`);
+            }
+            if (onAuthFailure) {
+                livePaths.push(`${path}.options.onAuthFailure`);
+            }
+            const serializedOptions: SerializedWebSocketConfigOptions | SerializedWebSocketConfigOptionsUrl = { ...socketOptions };
+            if (reconnectOptions) {
+                const { onReconnecting, onReconnected, onGaveUp, ...delays } = reconnectOptions;
+                if (onReconnecting || onReconnected || onGaveUp) {
+                    livePaths.push(`${path}.options.reconnectOptions`);
+                }
+                serializedOptions.reconnectOptions = delays;
+            }
+            return { ...languageClientConfig, options: serializedOptions };
+        }
+        case 'WorkerConfig':
+        case 'SharedWorkerConfig':
+            return { ...languageClientConfig, options: { ...options, url: new URL(options.url).href } };
+        default:
+            livePaths.push(`${path}.options`);
+            return undefined;
+    }
+};
+
+const serializeEditorStateConfig = (editorStateConfig: EditorStateConfig, livePaths: string[]): SerializedUserConfig['editorStateConfig'] => {
+    const storage = editorStateConfig.storage;
+    let serializedStorage: SerializedEditorStateStorage | undefined;
+    if (storage instanceof MemoryEditorStateStorage) {
+        serializedStorage = { type: 'memory' };
+    } else if (storage instanceof LocalStorageEditorStateStorage) {
+        serializedStorage = { type: 'localStorage', keyPrefix: storage.keyPrefix };
+    } else if (storage instanceof IndexedDbEditorStateStorage) {
+        serializedStorage = { type: 'indexedDb', databaseName: storage.databaseName };
+    } else if (storage !== undefined) {
+        livePaths.push('editorStateConfig.storage');
+    }
+    return {
+        restoreContent: editorStateConfig.restoreContent,
+        storage: serializedStorage
+    };
+};
+
+/**
+ * Converts a UserConfig into a form that can be stored with JSON.stringify. The html element is dropped.
+ * Callbacks and live objects cannot be stored. If the config contains any, a WrapperConfigError with code
+ * CONFIG_INVALID is thrown whose message lists the paths of all of them.
+ */
+export const serializeUserConfig = (userConfig: UserConfig): SerializedUserConfig => {
+    const livePaths: string[] = [];
+
+    const appConfig = userConfig.wrapperConfig.editorAppConfig;
+    let editorAppConfig: SerializedEditorAppConfigClassic | SerializedEditorAppConfigVscodeApi;
+    if (appConfig.$type === 'vscodeApi') {
+        const { extensionFilesOrContents, ...vscodeApiConfig } = appConfig;
+        editorAppConfig = { ...vscodeApiConfig };
+        if (extensionFilesOrContents) {
+            editorAppConfig.extensionFilesOrContents = Object.fromEntries(Array.from(extensionFilesOrContents.entries()).map(([path, file]) => {
+                return [path, typeof file === 'string' ? file : { url: file.href }];
+            }));
+        }
+    } else {
+        const { languageDef, ...classicConfig } = appConfig;
+        editorAppConfig = { ...classicConfig };
+        if (languageDef !== undefined) {
+            editorAppConfig.languageDef = serializeRegExps(languageDef);
+        }
+    }
+
+    let serviceConfig: SerializedServiceConfig | undefined;
+    if (userConfig.wrapperConfig.serviceConfig) {
+        const { configureEditorOrViewsService, configureTerminalService, configureStorageService, userServices, ...plainServiceConfig } = userConfig.wrapperConfig.serviceConfig;
+        serviceConfig = { ...plainServiceConfig };
+        if (configureEditorOrViewsService) {
+            if (configureEditorOrViewsService.openEditorFunc) {
+                livePaths.push('wrapperConfig.serviceConfig.configureEditorOrViewsService.openEditorFunc');
+            }
+            serviceConfig.configureEditorOrViewsService = { enableViewsService: configureEditorOrViewsService.enableViewsService };
+        }
+        if (configureTerminalService) {
+            livePaths.push('wrapperConfig.serviceConfig.configureTerminalService');
+        }
+        if (configureStorageService?.provider) {
+            livePaths.push('wrapperConfig.serviceConfig.configureStorageService');
+        }
+        if (userServices) {
+            livePaths.push('wrapperConfig.serviceConfig.userServices');
+        }
+    }
+
+    const serializedConfig: SerializedUserConfig = {
+        id: userConfig.id,
+        wrapperConfig: {
+            serviceConfig,
+            editorAppConfig
+        }
+    };
+    if (userConfig.languageClientConfig) {
+        serializedConfig.languageClientConfig = serializeLanguageClientConfig(userConfig.languageClientConfig, 'languageClientConfig', livePaths);
+    }
+    if (userConfig.languageClientConfigs) {
+        serializedConfig.languageClientConfigs = {};
+        for (const [name, languageClientConfig] of Object.entries(userConfig.languageClientConfigs)) {
+            const serializedLanguageClientConfig = serializeLanguageClientConfig(languageClientConfig, `languageClientConfigs.${name}`, livePaths);
+            if (serializedLanguageClientConfig) {
+                serializedConfig.languageClientConfigs[name] = serializedLanguageClientConfig;
+            }
+        }
+    }
+    if (userConfig.logger) {
+        if (userConfig.logger.handler) {
+            livePaths.push('logger.handler');
+        }
+        serializedConfig.logger = { level: userConfig.logger.level };
+    }
+    if (userConfig.editorStateConfig) {
+        serializedConfig.editorStateConfig = serializeEditorStateConfig(userConfig.editorStateConfig, livePaths);
+    }
+    if (userConfig.collaborationConfig) {
+        livePaths.push('collaborationConfig');
+    }
+    if (userConfig.saveHandler) {
+        livePaths.push('saveHandler');
+    }
+
+    if (livePaths.length > 0) {
+        throw new WrapperConfigError('CONFIG_INVALID', `The config contains values that cannot be serialized: ${livePaths.join(', ')}`);
+    }
+    return serializedConfig;
+};
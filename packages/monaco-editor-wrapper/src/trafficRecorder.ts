@@ -0,0 +1,247 @@
+import { Emitter } from 'monaco-editor';
+import { DataCallback, Disposable, Event, Message, MessageReader, MessageWriter, NotificationMessage, PartialMessageInfo, RequestMessage, ResponseMessage } from 'vscode-languageserver-protocol/browser.js';
+import { MessageTransports } from 'vscode-languageclient/lib/common/client.js';
+import { WrapperConfigError } from './errors.js';
+
+/** Seen from the languageclient: send goes to the server, receive comes from the server */
+export type LspMessageDirection = 'send' | 'receive';
+
+export type RecordedLspMessage = {
+    /** Milliseconds since epoch */
+    timestamp: number;
+    direction: LspMessageDirection;
+    /** Method of the request or notification. Responses get the method of their request. */
+    method?: string;
+    message: Message;
+};
+
+export type LspTrafficRecording = {
+    version: 1;
+    messages: RecordedLspMessage[];
+};
+
+export type LspTrafficFilter = {
+    methods?: string[];
+    direction?: LspMessageDirection;
+};
+
+export type LspTrafficRecorderOptions = {
+    /** Only messages with one of these methods are recorded. Default: all messages */
+    methods?: string[];
+    /** Maximum number of kept messages, the oldest ones are dropped first. Default: unlimited */
+    maxMessages?: number;
+};
+
+const isRequest = (message: Message): message is RequestMessage => {
+    return (message as RequestMessage).method !== undefined && (message as RequestMessage).id !== undefined;
+};
+
+const isResponse = (message: Message): message is ResponseMessage => {
+    return (message as RequestMessage).method === undefined && (message as ResponseMessage).id !== undefined;
+};
+
+const matchesFilter = (recorded: RecordedLspMessage, filter?: LspTrafficFilter) => {
+    return (filter?.direction === undefined || recorded.direction === filter.direction) &&
+        (filter?.methods === undefined || (recorded.method !== undefined && filter.methods.includes(recorded.method)));
+};
+
+class RecordingMessageReader implements MessageReader {
+
+    private reader: MessageReader;
+    private record: (message: Message) => void;
+
+    constructor(reader: MessageReader, record: (message: Message) => void) {
+        this.reader = reader;
+        this.record = record;
+    }
+
+    get onError(): Event<Error> {
+        return this.reader.onError;
+    }
+
+    get onClose(): Event<void> {
+        return this.reader.onClose;
+    }
+
+    get onPartialMessage(): Event<PartialMessageInfo> {
+        return this.reader.onPartialMessage;
+    }
+
+    listen(callback: DataCallback): Disposable {
+        return this.reader.listen(message => {
+            this.record(message);
+            callback(message);
+        });
+    }
+
+    dispose() {
+        this.reader.dispose();
+    }
+}
+
+class RecordingMessageWriter implements MessageWriter {
+
+    private writer: MessageWriter;
+    private record: (message: Message) => void;
+
+    constructor(writer: MessageWriter, record: (message: Message) => void) {
+        this.writer = writer;
+        this.record = record;
+    }
+
+    get onError(): Event<[Error, Message | undefined, number | undefined]> {
+        return this.writer.onError;
+    }
+
+    get onClose(): Event<void> {
+        return this.writer.onClose;
+    }
+
+    write(message: Message): Promise<void> {
+        this.record(message);
+        return this.writer.write(message);
+    }
+
+    end() {
+        this.writer.end();
+    }
+
+    dispose() {
+        this.writer.dispose();
+    }
+}
+
+/**
+ * Records the JSON-RPC messages exchanged between a languageclient and its server. Pass it as trafficRecorder of the
+ * LanguageClientConfig; it keeps recording across restarts and reconnects.
+ */
+export class LspTrafficRecorder {
+
+    private options: LspTrafficRecorderOptions;
+    private messages: RecordedLspMessage[] = [];
+    // methods of requests waiting for their response (key: direction of the response and id)
+    private pendingMethods: Map<string, string> = new Map();
+    private onDidRecordMessageEmitter = new Emitter<RecordedLspMessage>();
+
+    /** Fired for every recorded message, e.g. to show the traffic live */
+    readonly onDidRecordMessage = this.onDidRecordMessageEmitter.event;
+
+    constructor(options?: LspTrafficRecorderOptions) {
+        this.options = options ?? {};
+    }
+
+    /**
+     * Returns transports that record every message passing the given ones.
+     */
+    tap(messageTransports: MessageTransports): MessageTransports {
+        return {
+            reader: new RecordingMessageReader(messageTransports.reader, message => this.record('receive', message)),
+            writer: new RecordingMessageWriter(messageTransports.writer, message => this.record('send', message)),
+            detached: messageTransports.detached
+        };
+    }
+
+    private record(direction: LspMessageDirection, message: Message) {
+        const method = this.getMethod(direction, message);
+        if (this.options.methods !== undefined && (method === undefined || !this.options.methods.includes(method))) {
+            return;
+        }
+        const recorded: RecordedLspMessage = {
+            timestamp: Date.now(),
+            direction,
+            method,
+            message
+        };
+        this.messages.push(recorded);
+        if (this.options.maxMessages !== undefined && this.messages.length > this.options.maxMessages) {
+            this.messages.shift();
+        }
+        this.onDidRecordMessageEmitter.fire(recorded);
+    }
+
+    private getMethod(direction: LspMessageDirection, message: Message): string | undefined {
+        if (isRequest(message)) {
+            const responseDirection = direction === 'send' ? 'receive' : 'send';
+            this.pendingMethods.set(`${responseDirection}:${message.id}`, message.method);
+            return message.method;
+        } else if (isResponse(message)) {
+            const key = `${direction}:${message.id}`;
+            const method = this.pendingMethods.get(key);
+            this.pendingMethods.delete(key);
+            return method;
+        }
+        return (message as NotificationMessage).method;
+    }
+
+    getMessages(filter?: LspTrafficFilter): RecordedLspMessage[] {
+        return this.messages.filter(recorded => matchesFilter(recorded, filter));
+    }
+
+    clear() {
+        this.messages = [];
+        this.pendingMethods.clear();
+    }
+
+    /**
+     * Returns the recording as JSON, e.g. to store it as file and replay it with createReplayServer.
+     */
+    export(filter?: LspTrafficFilter): string {
+        const recording: LspTrafficRecording = {
+            version: 1,
+            messages: this.getMessages(filter)
+        };
+        return JSON.stringify(recording, undefined, 2);
+    }
+}
+
+export const parseLspTrafficRecording = (json: string): LspTrafficRecording => {
+    let recording: LspTrafficRecording;
+    try {
+        recording = JSON.parse(json);
+    } catch (e) {
+        throw new WrapperConfigError('CONFIG_INVALID', 'The traffic recording is not valid JSON.', e);
+    }
+    if (recording?.version !== 1 || !Array.isArray(recording.messages)) {
+        throw new WrapperConfigError('CONFIG_INVALID', 'The traffic recording has an unknown format.');
+    }
+    return recording;
+};
+
+/**
+ * Creates a fake server answering like the recorded one, to be used with createInProcessMessageTransports in tests.
+ * Every message received from the client is matched with the next recorded message sent by the client. Afterwards
+ * the following recorded server messages are sent, responses with the id of the live request.
+ * The client has to send the messages in the recorded order, messages without a match are ignored.
+ */
+export const createReplayServer = (recording: LspTrafficRecording | string): (serverTransports: MessageTransports) => void => {
+    const messages = (typeof recording === 'string' ? parseLspTrafficRecording(recording) : recording).messages;
+    return serverTransports => {
+        let position = 0;
+        // ids of the recorded client requests mapped to the ids of the live ones
+        const requestIds: Map<string | number, string | number> = new Map();
+
+        const sendServerMessages = () => {
+            while (position < messages.length && messages[position].direction === 'receive') {
+                const message = messages[position++].message;
+                if (isResponse(message) && message.id !== null && requestIds.has(message.id)) {
+                    serverTransports.writer.write({ ...message, id: requestIds.get(message.id)! } as ResponseMessage);
+                } else {
+                    serverTransports.writer.write(message);
+                }
+            }
+        };
+
+        serverTransports.reader.listen(message => {
+            const expected = messages[position]?.message;
+            if (expected === undefined || (expected as RequestMessage).method !== (message as RequestMessage).method) {
+                return;
+            }
+            if (isRequest(message) && isRequest(expected) && expected.id !== null && message.id !== null) {
+                requestIds.set(expected.id, message.id);
+            }
+            position++;
+            sendServerMessages();
+        });
+        sendServerMessages();
+    };
+};
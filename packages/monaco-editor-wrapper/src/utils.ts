@@ -1,11 +1,18 @@
-import { WebSocketConfigOptions, WebSocketConfigOptionsUrl } from './languageClientWrapper.js';
+import { Uri } from 'monaco-editor';
+import { DocumentSelector } from 'vscode-languageserver-protocol/browser.js';
+import { WebSocketConfigOptions, WebSocketConfigOptionsUrl, WebSocketReconnectOptions } from './languageClientWrapper.js';
+import { WrapperConfigError } from './errors.js';
 
-export const createUrl = (config: WebSocketConfigOptions | WebSocketConfigOptionsUrl) => {
+/**
+ * Builds the url of the web socket. The query parameters of the config and the token, if given, are added to the
+ * query of the url, replacing parameters of the same name.
+ */
+export const createUrl = (config: WebSocketConfigOptions | WebSocketConfigOptionsUrl, token?: string) => {
     let buildUrl = '';
     if ((config as WebSocketConfigOptionsUrl).url) {
         const options = config as WebSocketConfigOptionsUrl;
         if (!options.url.startsWith('ws://') && !options.url.startsWith('wss://')) {
-            throw new Error(`This is not a proper websocket url: ${options.url}`);
+            throw new WrapperConfigError('CONFIG_INVALID', `This is not a proper websocket url: ${options.url}`);
         }
         buildUrl = options.url;
     } else {
@@ -21,9 +28,154 @@ export const createUrl = (config: WebSocketConfigOptions | WebSocketConfigOption
             buildUrl += `/${options.path}`;
         }
     }
-    return buildUrl;
+
+    const queryParams = new URLSearchParams(config.queryParams);
+    if (token !== undefined) {
+        queryParams.set(config.tokenQueryParam ?? 'access_token', token);
+    }
+    if (queryParams.toString().length === 0) {
+        return buildUrl;
+    }
+    // URL keeps an existing query and puts the parameters in front of a fragment
+    const url = new URL(buildUrl);
+    queryParams.forEach((value, key) => url.searchParams.set(key, value));
+    return url.href;
 };
 
 export const verifyUrlorCreateDataUrl = (input: string | URL) => {
     return (input instanceof URL) ? input.href : new URL(`data:text/plain;base64,${btoa(input)}`).href;
 };
+
+/**
+ * Computes the exponential backoff delay for the given reconnect attempt (starting with 1).
+ * The jitter randomizes the given ratio of the delay in both directions.
+ */
+export const computeReconnectDelay = (options: WebSocketReconnectOptions, attempt: number, random: () => number = Math.random) => {
+    const initialDelay = options.initialDelay ?? 1000;
+    const maxDelay = options.maxDelay ?? 30000;
+    const multiplier = options.multiplier ?? 2;
+    const jitter = Math.min(Math.max(options.jitter ?? 0.5, 0), 1);
+
+    const delay = Math.min(initialDelay * Math.pow(multiplier, attempt - 1), maxDelay);
+    return Math.round(delay + delay * jitter * (random() * 2 - 1));
+};
+
+/**
+ * A replacement of length characters at offset with text
+ */
+export type MinimalEdit = {
+    offset: number;
+    length: number;
+    text: string;
+};
+
+const isHighSurrogate = (charCode: number) => charCode >= 0xd800 && charCode <= 0xdbff;
+const isLowSurrogate = (charCode: number) => charCode >= 0xdc00 && charCode <= 0xdfff;
+
+/**
+ * Computes the single replacement turning oldText into newText. The common prefix and suffix are kept, so markers,
+ * decorations and the cursor outside the changed range stay where they are. Returns undefined if both texts are equal.
+ */
+export const computeMinimalEdit = (oldText: string, newText: string): MinimalEdit | undefined => {
+    if (oldText === newText) {
+        return undefined;
+    }
+    const maxLength = Math.min(oldText.length, newText.length);
+    let prefix = 0;
+    while (prefix < maxLength && oldText.charCodeAt(prefix) === newText.charCodeAt(prefix)) {
+        prefix++;
+    }
+    // never split a surrogate pair
+    if (prefix > 0 && isHighSurrogate(oldText.charCodeAt(prefix - 1))) {
+        prefix--;
+    }
+
+    let suffix = 0;
+    while (suffix < maxLength - prefix && oldText.charCodeAt(oldText.length - 1 - suffix) === newText.charCodeAt(newText.length - 1 - suffix)) {
+        suffix++;
+    }
+    if (suffix > 0 && isLowSurrogate(oldText.charCodeAt(oldText.length - suffix))) {
+        suffix--;
+    }
+
+    return {
+        offset: prefix,
+        length: oldText.length - prefix - suffix,
+        text: newText.substring(prefix, newText.length - suffix)
+    };
+};
+
+/**
+ * Converts a glob pattern to a regular expression matching the whole path.
+ * Supported are **, *, ?, {a,b} and character ranges like [a-z] or [!a-z].
+ */
+export const globToRegExp = (glob: string): RegExp => {
+    let source = '';
+    let inGroup = false;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // **/ also matches no folder at all
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i++;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            inGroup = true;
+            source += '(?:';
+        } else if (char === '}' && inGroup) {
+            inGroup = false;
+            source += ')';
+        } else if (char === ',' && inGroup) {
+            source += '|';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                const range = glob.substring(i + 1, end);
+                source += `[${range.startsWith('!') ? `^${range.substring(1)}` : range}]`;
+                i = end;
+            }
+        } else {
+            source += char.replace(/[.+^$()|\\\]]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+};
+
+/**
+ * Checks whether a document matches the selector. Strings are language ids. Patterns containing a slash are matched
+ * against the path of the uri, others against the file name. Notebook cell filters never match.
+ */
+export const matchDocumentSelector = (documentSelector: DocumentSelector, uri: string, languageId: string): boolean => {
+    const parsedUri = Uri.parse(uri);
+    return documentSelector.some(filter => {
+        if (typeof filter === 'string') {
+            return filter === languageId;
+        }
+        if ('notebook' in filter) {
+            return false;
+        }
+        if (filter.language !== undefined && filter.language !== languageId) {
+            return false;
+        }
+        if (filter.scheme !== undefined && filter.scheme !== parsedUri.scheme) {
+            return false;
+        }
+        if (filter.pattern !== undefined) {
+            const path = filter.pattern.includes('/') ? parsedUri.path : parsedUri.path.substring(parsedUri.path.lastIndexOf('/') + 1);
+            return globToRegExp(filter.pattern).test(path);
+        }
+        return true;
+    });
+};
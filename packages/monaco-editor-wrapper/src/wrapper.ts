@@ -1,9 +1,22 @@
 import { EditorAppVscodeApi, EditorAppConfigVscodeApi } from './editorAppVscodeApi.js';
 import { EditorAppClassic, EditorAppConfigClassic } from './editorAppClassic.js';
-import { editor } from 'monaco-editor';
+import { editor, Emitter, IDisposable, KeyCode, KeyMod, Uri } from 'monaco-editor';
 import { initServices, wasVscodeApiInitialized, InitializeServiceConfig, MonacoLanguageClient } from 'monaco-languageclient';
-import { VscodeUserConfiguration, isVscodeApiEditorApp } from './editorAppBase.js';
-import { LanguageClientConfig, LanguageClientWrapper } from './languageClientWrapper.js';
+import { State } from 'vscode-languageclient/lib/common/client.js';
+import { EditorAppType, EditorMode, EditorModeOptions, VscodeUserConfiguration, isVscodeApiEditorApp } from './editorAppBase.js';
+import { DEFAULT_LANGUAGE_CLIENT_NAME, LanguageClientConfig, LanguageClientStatus, LanguageClientWrapper } from './languageClientWrapper.js';
+import { Logger, LoggerConfig } from './logger.js';
+import { CollaborationBinding, CollaborationConfig } from './collaboration.js';
+import { EditorModelState, EditorStateConfig, EditorStateStorage, MemoryEditorStateStorage } from './editorState.js';
+import { createModelReference, ITextFileEditorModel } from 'vscode/monaco';
+import { IReference } from 'vscode/service-override/editor';
+import { MergeConflictController, MergeResolution } from './merge.js';
+import { DirtyStateTracker } from './dirtyTracker.js';
+import { DiagnosticCounts, DiagnosticsFilter, DiagnosticsTracker } from './diagnostics.js';
+import { LanguageClientMessageHandlers, LanguageClientNotificationHandler, LanguageClientRequestHandler } from './messageHandlers.js';
+import { ConfigValidationError, StartAbortedError, WrapperConfigError, WrapperStateError } from './errors.js';
+import { validateUserConfig } from './configValidation.js';
+import { generateWrapperId, getWrapperIdByModelUri, registerWrapper, unregisterWrapper } from './wrapperRegistry.js';
 
 export type WrapperConfig = {
     serviceConfig?: InitializeServiceConfig;
@@ -11,12 +24,27 @@ export type WrapperConfig = {
 };
 
 export type UserConfig = {
+    /** Unique among all live wrappers. If omitted, an id is generated and kept across restarts. */
     id?: string;
     htmlElement: HTMLElement;
     wrapperConfig: WrapperConfig;
     languageClientConfig?: LanguageClientConfig;
+    /** Additional named languageclients, e.g. for languages embedded into the main language */
+    languageClientConfigs?: Record<string, LanguageClientConfig>;
+    logger?: LoggerConfig;
+    /** Shares the main model with other participants */
+    collaborationConfig?: CollaborationConfig;
+    /** Keeps content and view state of the main model on dispose and restart and restores it on start */
+    editorStateConfig?: EditorStateConfig;
+    /** Persists the content of a model. If configured, Ctrl/Cmd+S saves the model shown in the editor. */
+    saveHandler?: (uri: string, content: string) => Promise<void> | void;
 }
 
+export type WrapperStartOptions = {
+    /** Aborts the start, e.g. when a component is unmounted. The editor app and all languageclients are disposed then. */
+    signal?: AbortSignal;
+};
+
 export type ModelUpdate = {
     languageId?: string;
     code?: string;
@@ -25,6 +53,46 @@ export type ModelUpdate = {
     codeOriginalUri?: string;
 }
 
+export type WrapperStatus = {
+    id: string;
+    started: boolean;
+    editorAppType?: EditorAppType;
+    editorKind: 'editor' | 'diffEditor' | 'none';
+    modelUris: string[];
+    activeModelUri?: string;
+    languageClients: LanguageClientStatus[];
+};
+
+export type EditorStartedEvent = {
+    wrapperId: string;
+    appType: EditorAppType;
+    useDiffEditor: boolean;
+};
+
+export type EditorDisposedEvent = {
+    wrapperId: string;
+};
+
+export type LanguageClientStartedEvent = {
+    wrapperId: string;
+    name: string;
+};
+
+export type LanguageClientStateChangeEvent = {
+    wrapperId: string;
+    name: string;
+    oldState: State;
+    newState: State;
+};
+
+export type WrapperErrorEvent = {
+    wrapperId: string;
+    source: 'editor' | 'languageClient';
+    /** Name of the languageclient if the source is a languageclient */
+    name?: string;
+    error: unknown;
+};
+
 /**
  * This class is responsible for the overall ochestration.
  * It inits, start and disposes the editor apps and the language client (if configured) and provides
@@ -33,21 +101,66 @@ export type ModelUpdate = {
 export class MonacoEditorLanguageClientWrapper {
 
     private id: string;
+    private generatedId: string | undefined;
     private htmlElement: HTMLElement;
+    private logger: Logger = new Logger();
 
     private editorApp: EditorAppClassic | EditorAppVscodeApi | undefined;
-    private languageClientWrapper: LanguageClientWrapper;
+    private languageClientWrappers: Map<string, LanguageClientWrapper> = new Map();
     private serviceConfig: InitializeServiceConfig;
+    private languageClientSubscriptions: IDisposable[] = [];
+    private collaborationBinding: CollaborationBinding | undefined;
+    private collaborationConfig: CollaborationConfig | undefined;
+    private editorStateConfig: EditorStateConfig | undefined;
+    private memoryStateStorage = new MemoryEditorStateStorage();
+    private retainedModelRefs: Array<IReference<ITextFileEditorModel>> = [];
+    private dirtyStateTracker = new DirtyStateTracker();
+    private saveHandler: UserConfig['saveHandler'];
+    private diagnosticsTracker = new DiagnosticsTracker(() => this.getDiagnosticUris());
+    private messageHandlers = new LanguageClientMessageHandlers();
+
+    private onDidStartEditorEmitter = new Emitter<EditorStartedEvent>();
+    private onDidDisposeEditorEmitter = new Emitter<EditorDisposedEvent>();
+    private onDidStartLanguageClientEmitter = new Emitter<LanguageClientStartedEvent>();
+    private onLanguageClientStateChangeEmitter = new Emitter<LanguageClientStateChangeEvent>();
+    private onErrorEmitter = new Emitter<WrapperErrorEvent>();
+
+    /** Fired when the editor or diff editor was created */
+    readonly onDidStartEditor = this.onDidStartEditorEmitter.event;
+    /** Fired when the editor app was disposed */
+    readonly onDidDisposeEditor = this.onDidDisposeEditorEmitter.event;
+    /** Fired whenever a languageclient was started: initially, on restart and on reconnect */
+    readonly onDidStartLanguageClient = this.onDidStartLanguageClientEmitter.event;
+    /** Fired whenever the state of any languageclient changes */
+    readonly onLanguageClientStateChange = this.onLanguageClientStateChangeEmitter.event;
+    /** Fired when starting the editor or a languageclient failed. The error is still thrown by start. */
+    readonly onError = this.onErrorEmitter.event;
+    /** Fired when a model becomes dirty by an edit or clean by a save or undo */
+    readonly onDidChangeDirty = this.dirtyStateTracker.onDidChangeDirty;
+    /** Fired when the markers of any model of the editor app changed */
+    readonly onDidChangeDiagnostics = this.diagnosticsTracker.onDidChangeDiagnostics;
 
     private async init(userConfig: UserConfig) {
-        if (userConfig.wrapperConfig.editorAppConfig.useDiffEditor && !userConfig.wrapperConfig.editorAppConfig.codeOriginal) {
-            throw new Error('Use diff editor was used without a valid config.');
+        const diagnostics = validateUserConfig(userConfig);
+        if (diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+            throw new ConfigValidationError(diagnostics);
         }
 
-        this.id = userConfig.id ?? Math.floor(Math.random() * 101).toString();
+        const id = userConfig.id ?? (this.generatedId = this.generatedId ?? generateWrapperId());
+        registerWrapper(id, this);
+        if (this.id !== undefined && this.id !== id) {
+            unregisterWrapper(this.id, this);
+        }
+        this.id = id;
         this.htmlElement = userConfig.htmlElement;
+        this.logger = new Logger(this.id, userConfig.logger);
+        for (const diagnostic of diagnostics) {
+            this.logger.warn(`${diagnostic.path}: ${diagnostic.message}`);
+        }
+        this.editorStateConfig = userConfig.editorStateConfig;
+        this.saveHandler = userConfig.saveHandler;
 
-        this.languageClientWrapper = new LanguageClientWrapper(userConfig.languageClientConfig);
+        this.languageClientWrappers = this.buildLanguageClientWrappers(userConfig);
 
         this.serviceConfig = userConfig.wrapperConfig.serviceConfig ?? {};
 
@@ -62,25 +175,249 @@ export class MonacoEditorLanguageClientWrapper {
         await (wasVscodeApiInitialized() ? Promise.resolve('No service init on restart') : initServices(this.serviceConfig));
     }
 
-    async start(userConfig: UserConfig) {
-        await this.init(userConfig);
+    async start(userConfig: UserConfig, startOptions?: WrapperStartOptions) {
+        const signal = startOptions?.signal;
+        try {
+            this.throwIfAborted(signal);
+            // keep the state of a running editor including its model, so undo history survives the restart
+            await this.captureEditorState(true);
+            await this.init(userConfig);
+            this.throwIfAborted(signal);
+
+            // Always dispose old instances before start
+            this.disposeEditorApp();
+
+            if (isVscodeApiEditorApp(userConfig.wrapperConfig)) {
+                this.editorApp = new EditorAppVscodeApi(this.id, userConfig, this.logger);
+            } else {
+                this.editorApp = new EditorAppClassic(this.id, userConfig, this.logger);
+            }
+            this.throwIfModelUriInUse(this.editorApp.getEditorUri('code').toString());
+            if (this.editorApp.getConfig().useDiffEditor) {
+                this.throwIfModelUriInUse(this.editorApp.getEditorUri('codeOriginal').toString());
+            }
+            for (const languageClientWrapper of this.languageClientWrappers.values()) {
+                languageClientWrapper.init(this.editorApp.getConfig().languageId);
+            }
+            this.logger.info(`Starting monaco-editor (${this.id})`);
+
+            const editorState = await this.restoreEditorContent();
+            await this.editorApp?.init();
+            await this.editorApp.createEditors(this.htmlElement);
+            this.restoreEditorViewState(editorState);
+            this.trackModels();
+            this.registerSaveAction();
+            this.diagnosticsTracker.start();
+
+            this.collaborationConfig = userConfig.collaborationConfig;
+            if (this.collaborationConfig) {
+                await this.startCollaboration(this.collaborationConfig);
+            }
+            this.throwIfAborted(signal);
+        } catch (e) {
+            if (signal?.aborted) {
+                this.logger.info('Start was aborted.');
+                this.disposeEditorApp();
+            } else {
+                this.logger.error('Starting the editor failed.', e);
+                this.onErrorEmitter.fire({ wrapperId: this.id, source: 'editor', error: e });
+            }
+            // a wrapper without editor is not live, so its id and model uris are free for other wrappers
+            if (!this.editorApp?.haveEditor()) {
+                unregisterWrapper(this.id, this);
+            }
+            throw e;
+        }
+        this.onDidStartEditorEmitter.fire({
+            wrapperId: this.id,
+            appType: this.editorApp.getAppType(),
+            useDiffEditor: this.editorApp.getConfig().useDiffEditor
+        });
+
+        const languageClientWrappers = Array.from(this.languageClientWrappers.entries())
+            .filter(([, languageClientWrapper]) => languageClientWrapper.haveLanguageClientConfig());
+        this.warnAboutUnmatchedModel(languageClientWrappers);
+        await Promise.all(languageClientWrappers.map(async ([name, languageClientWrapper]) => {
+            try {
+                await languageClientWrapper.start(signal);
+            } catch (e) {
+                if (signal?.aborted) {
+                    // handled once all languageclients are settled
+                    return;
+                }
+                this.logger.error(`Starting languageclient "${name}" failed.`, e);
+                this.onErrorEmitter.fire({ wrapperId: this.id, source: 'languageClient', name, error: e });
+                throw e;
+            }
+        }));
+        if (signal?.aborted) {
+            this.logger.info('Start was aborted.');
+            try {
+                // languageclients that were already running before the abort
+                await this.dispose();
+            } catch (e) {
+                this.logger.warn('Disposing after the aborted start failed.', e);
+            }
+            this.throwIfAborted(signal);
+        }
+    }
 
-        // Always dispose old instances before start
-        this.editorApp?.disposeApp();
+    private throwIfAborted(signal?: AbortSignal) {
+        if (signal?.aborted) {
+            throw new StartAbortedError('START_ABORTED', 'Start of the wrapper was aborted.', signal.reason);
+        }
+    }
 
-        if (isVscodeApiEditorApp(userConfig.wrapperConfig)) {
-            this.editorApp = new EditorAppVscodeApi(this.id, userConfig);
-        } else {
-            this.editorApp = new EditorAppClassic(this.id, userConfig);
+    /**
+     * Two wrappers using the same model uri would silently share the model.
+     */
+    private throwIfModelUriInUse(uri: string) {
+        const wrapperId = getWrapperIdByModelUri(uri, this);
+        if (wrapperId !== undefined) {
+            throw new WrapperStateError('MODEL_URI_CONFLICT', `The model ${Uri.parse(uri).toString()} is already used by wrapper ${wrapperId}.`);
+        }
+    }
+
+    /**
+     * A languageclient whose document selector does not match the model never receives the document.
+     */
+    private warnAboutUnmatchedModel(languageClientWrappers: Array<[string, LanguageClientWrapper]>) {
+        const model = this.editorApp?.getModel();
+        if (!model) {
+            return;
+        }
+        for (const [name, languageClientWrapper] of languageClientWrappers) {
+            if (!languageClientWrapper.matchesDocument(model.uri.toString(), model.getLanguageId())) {
+                this.logger.warn(`The document selector of languageclient "${name}" does not match the model ${model.uri.toString()} (${model.getLanguageId()}).`);
+            }
+        }
+    }
+
+    private buildLanguageClientWrappers(userConfig: UserConfig) {
+        const languageClientWrappers = new Map<string, LanguageClientWrapper>();
+        if (userConfig.languageClientConfig) {
+            const name = userConfig.languageClientConfig.options.name ?? DEFAULT_LANGUAGE_CLIENT_NAME;
+            languageClientWrappers.set(name, new LanguageClientWrapper(userConfig.languageClientConfig, name, this.logger));
+        }
+        for (const [name, languageClientConfig] of Object.entries(userConfig.languageClientConfigs ?? {})) {
+            if (languageClientWrappers.has(name)) {
+                throw new WrapperConfigError('CONFIG_DUPLICATE_NAME', `Language client name "${name}" is used more than once.`);
+            }
+            languageClientWrappers.set(name, new LanguageClientWrapper(languageClientConfig, name, this.logger));
         }
-        this.languageClientWrapper.init(this.editorApp.getConfig().languageId);
-        console.log(`Starting monaco-editor (${this.id})`);
 
-        await this.editorApp?.init();
-        await this.editorApp.createEditors(this.htmlElement);
+        this.languageClientSubscriptions.forEach(subscription => subscription.dispose());
+        this.languageClientSubscriptions = [];
+        for (const [name, languageClientWrapper] of languageClientWrappers) {
+            this.languageClientSubscriptions.push(languageClientWrapper.onDidCreate(languageClient => {
+                this.messageHandlers.attach(name, languageClient);
+            }));
+            this.languageClientSubscriptions.push(languageClientWrapper.onDidStart(() => {
+                this.onDidStartLanguageClientEmitter.fire({ wrapperId: this.id, name });
+            }));
+            this.languageClientSubscriptions.push(languageClientWrapper.onDidChangeState(event => {
+                this.onLanguageClientStateChangeEmitter.fire({ wrapperId: this.id, name, ...event });
+            }));
+        }
+        return languageClientWrappers;
+    }
 
-        if (this.languageClientWrapper.haveLanguageClientConfig()) {
-            await this.languageClientWrapper.start();
+    private getEditorStateStorage(): EditorStateStorage | undefined {
+        if (this.editorStateConfig) {
+            return this.editorStateConfig.storage ?? this.memoryStateStorage;
+        }
+        return undefined;
+    }
+
+    /**
+     * Stores content and view state of the main model if editor state handling is configured.
+     *
+     * @param retainModel Keep a reference on the model, so it is not disposed with the editor app
+     */
+    private async captureEditorState(retainModel: boolean) {
+        const storage = this.getEditorStateStorage();
+        if (!storage || !this.editorApp) {
+            return;
+        }
+
+        const uri = this.editorApp.getEditorUri('code');
+        const model = editor.getModel(uri);
+        if (!model) {
+            return;
+        }
+        const codeEditor = this.getEditor() ?? this.getDiffEditor()?.getModifiedEditor();
+        const viewState = codeEditor?.getModel() === model ? codeEditor.saveViewState() ?? undefined : undefined;
+        await storage.save({
+            uri: uri.toString(),
+            languageId: model.getLanguageId(),
+            content: model.getValue(),
+            viewState,
+            timestamp: Date.now()
+        });
+
+        if (retainModel) {
+            this.retainedModelRefs.push(await createModelReference(uri) as unknown as IReference<ITextFileEditorModel>);
+        }
+    }
+
+    private async restoreEditorContent(): Promise<EditorModelState | undefined> {
+        const storage = this.getEditorStateStorage();
+        if (!storage || !this.editorApp) {
+            return undefined;
+        }
+
+        const config = this.editorApp.getConfig();
+        const editorState = await storage.load(this.editorApp.getEditorUri('code').toString());
+        if (editorState && this.editorStateConfig?.restoreContent !== false) {
+            config.code = editorState.content;
+        }
+        return editorState;
+    }
+
+    private restoreEditorViewState(editorState?: EditorModelState) {
+        const codeEditor = this.getEditor() ?? this.getDiffEditor()?.getModifiedEditor();
+        if (editorState?.viewState && codeEditor) {
+            codeEditor.restoreViewState(editorState.viewState);
+        }
+
+        // the new editor app holds its own references now
+        this.retainedModelRefs.forEach(modelRef => modelRef.dispose());
+        this.retainedModelRefs = [];
+    }
+
+    /**
+     * Removes the stored editor state of the given model uri or of the main model.
+     */
+    async clearEditorState(uri?: string): Promise<void> {
+        const key = uri ?? this.editorApp?.getEditorUri('code').toString();
+        if (key !== undefined) {
+            await this.getEditorStateStorage()?.remove(key);
+        }
+    }
+
+    private async startCollaboration(collaborationConfig: CollaborationConfig) {
+        const model = this.editorApp?.getModel();
+        if (!model) {
+            throw new WrapperStateError('MODEL_NOT_FOUND', 'Collaboration was configured, but the editor has no model.');
+        }
+        const codeEditor = this.getEditor() ?? this.getDiffEditor()?.getModifiedEditor();
+        this.collaborationBinding = new CollaborationBinding(model, collaborationConfig, codeEditor);
+        await this.collaborationBinding.connect();
+    }
+
+    getCollaborationBinding(): CollaborationBinding | undefined {
+        return this.collaborationBinding;
+    }
+
+    private disposeEditorApp() {
+        this.collaborationBinding?.dispose();
+        this.collaborationBinding = undefined;
+        this.dirtyStateTracker.dispose();
+        this.diagnosticsTracker.dispose();
+        if (this.editorApp) {
+            this.editorApp.disposeApp();
+            this.editorApp = undefined;
+            this.onDidDisposeEditorEmitter.fire({ wrapperId: this.id });
         }
     }
 
@@ -90,8 +427,10 @@ export class MonacoEditorLanguageClientWrapper {
             return false;
         }
 
-        if (this.languageClientWrapper.haveLanguageClient()) {
-            return this.languageClientWrapper.isStarted();
+        for (const languageClientWrapper of this.languageClientWrappers.values()) {
+            if (languageClientWrapper.haveLanguageClient() && !languageClientWrapper.isStarted()) {
+                return false;
+            }
         }
         return true;
     }
@@ -108,48 +447,343 @@ export class MonacoEditorLanguageClientWrapper {
         return this.editorApp?.getDiffEditor();
     }
 
-    getLanguageClient(): MonacoLanguageClient | undefined {
-        return this.languageClientWrapper.getLanguageClient();
+    /**
+     * Get the languageclient wrapper by name.
+     * If no name is given, the first configured languageclient wrapper is returned.
+     */
+    getLanguageClientWrapper(name?: string): LanguageClientWrapper | undefined {
+        if (name === undefined) {
+            return this.languageClientWrappers.values().next().value;
+        }
+        return this.languageClientWrappers.get(name);
+    }
+
+    getLanguageClientNames(): string[] {
+        return Array.from(this.languageClientWrappers.keys());
+    }
+
+    getLanguageClient(name?: string): MonacoLanguageClient | undefined {
+        return this.getLanguageClientWrapper(name)?.getLanguageClient();
+    }
+
+    /**
+     * Restart a single languageclient. All other languageclients are not affected.
+     */
+    async restartLanguageClient(name?: string, updatedWorker?: Worker, keepWorker?: boolean): Promise<void> {
+        const languageClientWrapper = this.getLanguageClientWrapper(name);
+        if (languageClientWrapper) {
+            await languageClientWrapper.restartLanguageClient(updatedWorker, keepWorker);
+        } else {
+            await Promise.reject(new WrapperStateError('LANGUAGE_CLIENT_NOT_FOUND', `No language client with name "${name}" is configured.`));
+        }
+    }
+
+    /**
+     * Handles a custom notification sent by the server of the languageclient with the given name or of all
+     * languageclients. The handler is kept across restarts and reconnects until it or the wrapper is disposed.
+     */
+    onNotification<P = unknown>(method: string, handler: LanguageClientNotificationHandler<P>, name?: string): IDisposable {
+        return this.messageHandlers.onNotification(method, handler, name);
+    }
+
+    /**
+     * Answers a request sent by the server of the languageclient with the given name or of all languageclients.
+     * Only one handler per method and languageclient is allowed. The handler is kept across restarts and reconnects
+     * until it or the wrapper is disposed.
+     */
+    onRequest<P = unknown, R = unknown>(method: string, handler: LanguageClientRequestHandler<P, R>, name?: string): IDisposable {
+        return this.messageHandlers.onRequest(method, handler, name);
+    }
+
+    /**
+     * Sends a custom request to the server of the languageclient with the given name or of the first one.
+     */
+    async sendRequest<R = unknown>(method: string, params?: unknown, name?: string): Promise<R> {
+        const languageClient = this.getStartedLanguageClient(name);
+        return languageClient.sendRequest<R>(method, params);
+    }
+
+    /**
+     * Sends a custom notification to the server of the languageclient with the given name or of the first one.
+     */
+    async sendNotification(method: string, params?: unknown, name?: string): Promise<void> {
+        const languageClient = this.getStartedLanguageClient(name);
+        return languageClient.sendNotification(method, params);
+    }
+
+    private getStartedLanguageClient(name?: string): MonacoLanguageClient {
+        const languageClientWrapper = this.getLanguageClientWrapper(name);
+        if (!languageClientWrapper) {
+            throw new WrapperStateError('LANGUAGE_CLIENT_NOT_FOUND', `No language client with name "${name}" is configured.`);
+        }
+        const languageClient = languageClientWrapper.getLanguageClient();
+        if (!languageClient || !languageClientWrapper.isStarted()) {
+            throw new WrapperStateError('LANGUAGE_CLIENT_NOT_STARTED', `The language client "${languageClientWrapper.getName()}" is not started.`);
+        }
+        return languageClient;
     }
 
     getModel(original?: boolean): editor.ITextModel | undefined {
         return this.editorApp?.getModel(original);
     }
 
-    getWorker(): Worker | undefined {
-        return this.languageClientWrapper.getWorker();
+    async openModel(uri: string, code: string, languageId?: string): Promise<editor.ITextModel | undefined> {
+        this.throwIfModelUriInUse(uri);
+        const model = await this.editorApp?.openModel(uri, code, languageId);
+        this.trackModels();
+        return model;
+    }
+
+    getModelUris(): string[] {
+        return this.editorApp?.getModelUris() ?? [];
+    }
+
+    getActiveModelUri(): string | undefined {
+        return this.editorApp?.getActiveModelUri();
+    }
+
+    async switchModel(uri: string): Promise<void> {
+        await this.editorApp?.switchModel(uri);
+    }
+
+    async closeModel(uri: string): Promise<void> {
+        await this.editorApp?.closeModel(uri);
+    }
+
+    getWorker(name?: string): Worker | undefined {
+        return this.getLanguageClientWrapper(name)?.getWorker();
+    }
+
+    getMergeConflictController(): MergeConflictController | undefined {
+        return this.editorApp?.getMergeConflictController();
+    }
+
+    /**
+     * Returns the model containing the merge result if the merge editor is shown.
+     */
+    getResolvedModel(): editor.ITextModel | undefined {
+        return this.getMergeConflictController() ? this.editorApp?.getModel() : undefined;
+    }
+
+    getRemainingConflictCount(): number {
+        return this.getMergeConflictController()?.getRemainingConflictCount() ?? 0;
+    }
+
+    acceptMergeConflict(index: number, resolution: MergeResolution) {
+        const mergeConflictController = this.getMergeConflictController();
+        if (!mergeConflictController) {
+            throw new WrapperStateError('EDITOR_NOT_AVAILABLE', 'acceptMergeConflict was called, but the merge editor is not shown.');
+        }
+        mergeConflictController.accept(index, resolution);
+    }
+
+    getEditorMode(): EditorMode | undefined {
+        return this.editorApp?.getEditorMode();
+    }
+
+    /**
+     * Switches between regular, diff and merge editor without restarting the editor app or the languageclients.
+     */
+    async setEditorMode(mode: EditorMode, modeOptions?: EditorModeOptions): Promise<void> {
+        if (!this.editorApp) {
+            return Promise.reject(new WrapperStateError('EDITOR_NOT_STARTED', 'setEditorMode was called when editor wrapper was not started.'));
+        }
+
+        await this.editorApp.setEditorMode(mode, modeOptions);
+        if (this.collaborationConfig) {
+            // the binding has to render the remote cursors in the new editor widget
+            this.collaborationBinding?.dispose();
+            await this.startCollaboration(this.collaborationConfig);
+        }
+        this.registerSaveAction();
+        this.onDidStartEditorEmitter.fire({
+            wrapperId: this.id,
+            appType: this.editorApp.getAppType(),
+            useDiffEditor: mode === 'diff'
+        });
     }
 
     async updateModel(modelUpdate: ModelUpdate): Promise<void> {
+        if (modelUpdate.uri !== undefined) {
+            this.throwIfModelUriInUse(modelUpdate.uri);
+        }
         await this.editorApp?.updateModel(modelUpdate);
+        this.trackModels();
     }
 
     async updateDiffModel(modelUpdate: ModelUpdate): Promise<void> {
+        for (const uri of [modelUpdate.uri, modelUpdate.codeOriginalUri]) {
+            if (uri !== undefined) {
+                this.throwIfModelUriInUse(uri);
+            }
+        }
         await this.editorApp?.updateDiffModel(modelUpdate);
+        this.trackModels();
+    }
+
+    /**
+     * Tracks the dirty state of all models of the editor app. Models that are already tracked keep their state.
+     */
+    private trackModels() {
+        for (const uri of this.getModelUris()) {
+            const model = editor.getModel(Uri.parse(uri));
+            if (model) {
+                this.dirtyStateTracker.track(model);
+            }
+        }
+    }
+
+    private registerSaveAction() {
+        const codeEditor = this.getEditor() ?? this.getDiffEditor()?.getModifiedEditor();
+        if (!this.saveHandler || !codeEditor) {
+            return;
+        }
+        // the action is disposed together with the editor widget
+        codeEditor.addAction({
+            id: 'monaco-editor-wrapper.save',
+            label: 'Save',
+            // eslint-disable-next-line no-bitwise
+            keybindings: [KeyMod.CtrlCmd | KeyCode.KeyS],
+            run: async (ed) => {
+                const uri = ed.getModel()?.uri.toString();
+                if (uri !== undefined) {
+                    try {
+                        await this.save(uri);
+                    } catch (e) {
+                        this.logger.error(`Saving ${uri} failed.`, e);
+                    }
+                }
+            }
+        });
+    }
+
+    /**
+     * Returns whether the model with the given uri or the active model has unsaved changes.
+     */
+    isDirty(uri?: string): boolean {
+        const key = uri !== undefined ? Uri.parse(uri).toString() : this.getActiveModelUri();
+        return key !== undefined && this.dirtyStateTracker.isDirty(key);
+    }
+
+    getDirtyUris(): string[] {
+        return this.dirtyStateTracker.getDirtyUris();
+    }
+
+    /**
+     * Returns the markers of the model with the given uri or of all models of the editor app including the original
+     * model of the diff editor. The markers are sorted by model and position.
+     */
+    getDiagnostics(uri?: string, filter?: DiagnosticsFilter): editor.IMarker[] {
+        return this.diagnosticsTracker.getDiagnostics(uri, filter);
+    }
+
+    getDiagnosticCounts(uri?: string, filter?: DiagnosticsFilter): DiagnosticCounts {
+        return this.diagnosticsTracker.getDiagnosticCounts(uri, filter);
+    }
+
+    private getDiagnosticUris(): string[] {
+        const uris = this.getModelUris();
+        const originalUri = this.editorApp?.getModel(true)?.uri.toString();
+        return originalUri !== undefined ? uris.concat(originalUri) : uris;
+    }
+
+    /**
+     * Selects the range of the diagnostic and scrolls it into view. In the regular editor the model of the diagnostic
+     * is shown first, in the diff editor the side showing the model is used.
+     */
+    async revealDiagnostic(diagnostic: editor.IMarker): Promise<void> {
+        if (!this.editorApp?.haveEditor()) {
+            return Promise.reject(new WrapperStateError('EDITOR_NOT_STARTED', 'revealDiagnostic was called when editor wrapper was not started.'));
+        }
+        const uri = diagnostic.resource.toString();
+        let codeEditor: editor.ICodeEditor | undefined;
+        const diffEditor = this.getDiffEditor();
+        if (diffEditor) {
+            codeEditor = [diffEditor.getModifiedEditor(), diffEditor.getOriginalEditor()]
+                .find(sideEditor => sideEditor.getModel()?.uri.toString() === uri);
+        } else {
+            await this.switchModel(uri);
+            codeEditor = this.getEditor();
+        }
+        if (!codeEditor) {
+            return Promise.reject(new WrapperStateError('MODEL_NOT_FOUND', `No editor shows the model ${uri}.`));
+        }
+
+        const range = {
+            startLineNumber: diagnostic.startLineNumber,
+            startColumn: diagnostic.startColumn,
+            endLineNumber: diagnostic.endLineNumber,
+            endColumn: diagnostic.endColumn
+        };
+        codeEditor.setSelection(range);
+        codeEditor.revealRangeInCenterIfOutsideViewport(range);
+        codeEditor.focus();
+    }
+
+    /**
+     * Saves the model with the given uri or the active model with the configured save handler.
+     * Languageclients serving the language of the model receive willSave before and didSave after the save handler
+     * was called, if the server requested these notifications.
+     */
+    async save(uri?: string): Promise<void> {
+        if (!this.saveHandler) {
+            return Promise.reject(new WrapperConfigError('CONFIG_MISSING', 'save was called, but no saveHandler is configured.'));
+        }
+        const key = uri !== undefined ? Uri.parse(uri).toString() : this.getActiveModelUri();
+        const model = key !== undefined ? editor.getModel(Uri.parse(key)) : null;
+        if (!key || !model) {
+            return Promise.reject(new WrapperStateError('MODEL_NOT_FOUND', `save was called, but no model ${key ?? ''} is open.`));
+        }
+
+        const languageClientWrappers = Array.from(this.languageClientWrappers.values())
+            .filter(languageClientWrapper => languageClientWrapper.matchesDocument(key, model.getLanguageId()));
+        await Promise.all(languageClientWrappers.map(languageClientWrapper => languageClientWrapper.notifyWillSave(key)));
+
+        // changes made while the save handler is running keep the model dirty
+        const versionId = model.getAlternativeVersionId();
+        const content = model.getValue();
+        await this.saveHandler(key, content);
+        this.dirtyStateTracker.markSaved(key, versionId);
+
+        await Promise.all(languageClientWrappers.map(languageClientWrapper => languageClientWrapper.notifyDidSave(key, content)));
     }
 
     async updateEditorOptions(options: editor.IEditorOptions & editor.IGlobalEditorOptions | VscodeUserConfiguration): Promise<void> {
         if (this.editorApp) {
             await this.editorApp.updateEditorOptions(options);
         } else {
-            await Promise.reject('Update was called when editor wrapper was not correctly configured.');
+            await Promise.reject(new WrapperStateError('EDITOR_NOT_STARTED', 'Update was called when editor wrapper was not correctly configured.'));
         }
     }
 
-    public reportStatus() {
-        const status: string[] = [];
-        status.push('Wrapper status:');
-        status.push(`Editor: ${this.editorApp?.getEditor()}`);
-        status.push(`DiffEditor: ${this.editorApp?.getDiffEditor()}`);
-        return status;
+    getStatus(): WrapperStatus {
+        let editorKind: WrapperStatus['editorKind'] = 'none';
+        if (this.editorApp?.getEditor()) {
+            editorKind = 'editor';
+        } else if (this.editorApp?.getDiffEditor()) {
+            editorKind = 'diffEditor';
+        }
+        return {
+            id: this.id,
+            started: this.isStarted(),
+            editorAppType: this.editorApp?.getAppType(),
+            editorKind,
+            modelUris: this.getModelUris(),
+            activeModelUri: this.getActiveModelUri(),
+            languageClients: Array.from(this.languageClientWrappers.values()).map(languageClientWrapper => languageClientWrapper.getStatus())
+        };
     }
 
     async dispose(): Promise<void> {
-        this.editorApp?.disposeApp();
-
-        if (this.languageClientWrapper.haveLanguageClient()) {
-            await this.languageClientWrapper.disposeLanguageClient(false);
-            this.editorApp = undefined;
+        await this.captureEditorState(false);
+        this.disposeEditorApp();
+        unregisterWrapper(this.id, this);
+        this.messageHandlers.dispose();
+
+        const languageClientWrappers = Array.from(this.languageClientWrappers.values())
+            .filter(languageClientWrapper => languageClientWrapper.haveLanguageClient());
+        if (languageClientWrappers.length > 0) {
+            await Promise.all(languageClientWrappers.map(languageClientWrapper => languageClientWrapper.disposeLanguageClient(false)));
             await Promise.resolve('Monaco editor and languageclient completed disposed.');
         }
         else {
@@ -0,0 +1,69 @@
+import { Uri } from 'monaco-editor';
+import type { MonacoEditorLanguageClientWrapper } from './wrapper.js';
+import { WrapperConfigError } from './errors.js';
+
+// all wrappers from start until dispose (key: id)
+const wrappers = new Map<string, MonacoEditorLanguageClientWrapper>();
+let lastGeneratedId = 0;
+
+/**
+ * Returns the next id not used by any live wrapper. Ids are counted up per page, so the derived model uris
+ * (e.g. /tmp/model1.ts) are stable across reloads of the page.
+ */
+export const generateWrapperId = (): string => {
+    let id: string;
+    do {
+        id = (++lastGeneratedId).toString();
+    } while (wrappers.has(id));
+    return id;
+};
+
+/**
+ * Registers the wrapper under the given id. Registering the same wrapper again is allowed, e.g. on restart.
+ */
+export const registerWrapper = (id: string, wrapper: MonacoEditorLanguageClientWrapper) => {
+    const registered = wrappers.get(id);
+    if (registered !== undefined && registered !== wrapper) {
+        throw new WrapperConfigError('CONFIG_DUPLICATE_ID', `The wrapper id "${id}" is already used by another wrapper.`);
+    }
+    wrappers.set(id, wrapper);
+};
+
+export const unregisterWrapper = (id: string, wrapper: MonacoEditorLanguageClientWrapper) => {
+    if (wrappers.get(id) === wrapper) {
+        wrappers.delete(id);
+    }
+};
+
+/**
+ * Returns the live wrapper with the given id. Wrappers are live from start until dispose.
+ */
+export const getWrapperById = (id: string): MonacoEditorLanguageClientWrapper | undefined => {
+    return wrappers.get(id);
+};
+
+export const getWrapperIds = (): string[] => {
+    return Array.from(wrappers.keys());
+};
+
+/**
+ * Returns the id of the live wrapper having a model with the given uri, including the original model of the diff editor.
+ * The wrapper given as except is skipped.
+ */
+export const getWrapperIdByModelUri = (uri: string, except?: MonacoEditorLanguageClientWrapper): string | undefined => {
+    const key = Uri.parse(uri).toString();
+    for (const [id, wrapper] of wrappers.entries()) {
+        if (wrapper === except) {
+            continue;
+        }
+        const uris = wrapper.getModelUris();
+        const originalUri = wrapper.getMonacoEditorApp()?.getModel(true)?.uri.toString();
+        if (originalUri !== undefined) {
+            uris.push(originalUri);
+        }
+        if (uris.includes(key)) {
+            return id;
+        }
+    }
+    return undefined;
+};
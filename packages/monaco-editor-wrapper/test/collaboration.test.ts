@@ -0,0 +1,256 @@
+import { describe, expect, test, vi } from 'vitest';
+import { editor, Range, Uri } from 'monaco-editor';
+import { CollaborationBinding, CollaborationConnection, CollaborationMessage, CollaborationProvider, CollaborationState, InMemoryCollaborationProvider } from 'monaco-editor-wrapper';
+
+/**
+ * Keeps all messages until flush is called, so the participants edit concurrently. Messages are delivered in reverse
+ * order to show that the order does not matter.
+ */
+class DelayedCollaborationProvider implements CollaborationProvider {
+
+    private listeners: Array<(message: CollaborationMessage) => void> = [];
+    private queue: Array<{ message: CollaborationMessage, sender: (message: CollaborationMessage) => void }> = [];
+
+    connect(_documentId: string, onMessage: (message: CollaborationMessage) => void): CollaborationConnection {
+        this.listeners.push(onMessage);
+        return {
+            send: (message: CollaborationMessage) => this.queue.push({ message, sender: onMessage }),
+            dispose: () => this.listeners = this.listeners.filter(listener => listener !== onMessage)
+        };
+    }
+
+    flush() {
+        const queue = this.queue.reverse();
+        this.queue = [];
+        for (const { message, sender } of queue) {
+            this.listeners.filter(listener => listener !== sender).forEach(listener => listener(message));
+        }
+    }
+}
+
+describe('Test CollaborationBinding', () => {
+
+    test('Local edits are applied to the remote model', async () => {
+        const provider = new InMemoryCollaborationProvider();
+        const modelA = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://a/shared.txt'));
+        const modelB = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://b/shared.txt'));
+        const bindingA = new CollaborationBinding(modelA, { provider, documentId: 'shared' });
+        const bindingB = new CollaborationBinding(modelB, { provider, documentId: 'shared' });
+        await bindingA.connect();
+        await bindingB.connect();
+
+        modelA.applyEdits([{ range: new Range(1, 7, 1, 12), text: 'monaco' }]);
+        expect(modelB.getValue()).toBe('hello monaco');
+
+        modelB.applyEdits([{ range: new Range(1, 1, 1, 1), text: '> ' }]);
+        expect(modelA.getValue()).toBe('> hello monaco');
+
+        bindingA.dispose();
+        bindingB.dispose();
+        modelA.dispose();
+        modelB.dispose();
+    });
+
+    test('Joining participant receives the current content', async () => {
+        const provider = new InMemoryCollaborationProvider();
+        const modelA = editor.createModel('shared content', 'plaintext', Uri.parse('inmemory://a/join.txt'));
+        const modelB = editor.createModel('', 'plaintext', Uri.parse('inmemory://b/join.txt'));
+        const bindingA = new CollaborationBinding(modelA, { provider, documentId: 'join' });
+        const bindingB = new CollaborationBinding(modelB, { provider, documentId: 'join' });
+        await bindingA.connect();
+        await bindingB.connect();
+
+        expect(modelB.getValue()).toBe('shared content');
+
+        bindingA.dispose();
+        bindingB.dispose();
+        modelA.dispose();
+        modelB.dispose();
+    });
+
+    test('Participants joining at the same time end up with the same content', async () => {
+        const provider = new DelayedCollaborationProvider();
+        const modelA = editor.createModel('content of a', 'plaintext', Uri.parse('inmemory://a/simultaneous.txt'));
+        const modelB = editor.createModel('content of b', 'plaintext', Uri.parse('inmemory://b/simultaneous.txt'));
+        const bindingA = new CollaborationBinding(modelA, { provider, documentId: 'simultaneous' });
+        const bindingB = new CollaborationBinding(modelB, { provider, documentId: 'simultaneous' });
+        await bindingA.connect();
+        await bindingB.connect();
+
+        // both answer the sync request of the other one, only the content of the first one is used
+        provider.flush();
+        provider.flush();
+        expect(modelA.getValue()).toBe('content of a');
+        expect(modelB.getValue()).toBe('content of a');
+
+        modelB.applyEdits([{ range: new Range(1, 1, 1, 1), text: '> ' }]);
+        provider.flush();
+        expect(modelA.getValue()).toBe('> content of a');
+
+        bindingA.dispose();
+        bindingB.dispose();
+        modelA.dispose();
+        modelB.dispose();
+    });
+
+    test('Concurrent edits converge', async () => {
+        const provider = new DelayedCollaborationProvider();
+        const modelA = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://a/concurrent.txt'));
+        const modelB = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://b/concurrent.txt'));
+        const bindingA = new CollaborationBinding(modelA, { provider, documentId: 'concurrent' });
+        const bindingB = new CollaborationBinding(modelB, { provider, documentId: 'concurrent' });
+        await bindingA.connect();
+        await bindingB.connect();
+        provider.flush();
+
+        // both edit the same state before they receive the change of the other one
+        modelA.applyEdits([{ range: new Range(1, 1, 1, 6), text: 'goodbye' }]);
+        modelA.applyEdits([{ range: new Range(1, 14, 1, 14), text: '!' }]);
+        modelB.applyEdits([{ range: new Range(1, 7, 1, 12), text: 'monaco' }]);
+        modelB.applyEdits([{ range: new Range(1, 1, 1, 1), text: '> ' }]);
+        provider.flush();
+
+        expect(modelA.getValue()).toBe('> goodbye monaco!');
+        expect(modelB.getValue()).toBe(modelA.getValue());
+
+        // inserts at the same position
+        modelA.applyEdits([{ range: new Range(1, 3, 1, 3), text: 'A' }]);
+        modelB.applyEdits([{ range: new Range(1, 3, 1, 3), text: 'B' }]);
+        provider.flush();
+        expect(modelB.getValue()).toBe(modelA.getValue());
+
+        bindingA.dispose();
+        bindingB.dispose();
+        modelA.dispose();
+        modelB.dispose();
+    });
+
+    test('Undo only reverts local changes', async () => {
+        const provider = new InMemoryCollaborationProvider();
+        const modelA = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://a/undo.txt'));
+        const modelB = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://b/undo.txt'));
+        const bindingA = new CollaborationBinding(modelA, { provider, documentId: 'undo' });
+        const bindingB = new CollaborationBinding(modelB, { provider, documentId: 'undo' });
+        await bindingA.connect();
+        await bindingB.connect();
+
+        modelA.pushEditOperations(null, [{ range: new Range(1, 12, 1, 12), text: '!' }], () => null);
+        modelB.pushEditOperations(null, [{ range: new Range(1, 1, 1, 1), text: '> ' }], () => null);
+        expect(modelA.getValue()).toBe('> hello world!');
+
+        bindingA.undo();
+        expect(modelA.getValue()).toBe('> hello world');
+        expect(modelB.getValue()).toBe('> hello world');
+
+        bindingA.redo();
+        expect(modelB.getValue()).toBe('> hello world!');
+
+        bindingA.dispose();
+        bindingB.dispose();
+        modelA.dispose();
+        modelB.dispose();
+    });
+
+    test('Undo and redo of the model are taken over by the binding', async () => {
+        const provider = new InMemoryCollaborationProvider();
+        // undo and redo of the model are not part of the public API, but all undo and redo commands of the editor use them
+        const modelA = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://a/modelUndo.txt')) as editor.ITextModel & {
+            undo(): void | Promise<void>, redo(): void | Promise<void>, canUndo(): boolean, canRedo(): boolean
+        };
+        const modelB = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://b/modelUndo.txt'));
+        const bindingA = new CollaborationBinding(modelA, { provider, documentId: 'modelUndo' });
+        const bindingB = new CollaborationBinding(modelB, { provider, documentId: 'modelUndo' });
+        await bindingA.connect();
+        await bindingB.connect();
+
+        modelA.pushEditOperations(null, [{ range: new Range(1, 12, 1, 12), text: '!' }], () => null);
+        modelB.pushEditOperations(null, [{ range: new Range(1, 1, 1, 1), text: '> ' }], () => null);
+        expect(modelA.canUndo()).toBeTruthy();
+
+        await modelA.undo();
+        expect(modelA.getValue()).toBe('> hello world');
+        expect(modelB.getValue()).toBe('> hello world');
+        expect(modelA.canUndo()).toBeFalsy();
+        expect(modelA.canRedo()).toBeTruthy();
+
+        await modelA.redo();
+        expect(modelB.getValue()).toBe('> hello world!');
+
+        bindingA.dispose();
+        bindingB.dispose();
+        modelA.dispose();
+        modelB.dispose();
+    });
+
+    test('Tombstones are removed once all participants acknowledged them and cannot undo them', async () => {
+        vi.useFakeTimers();
+        const provider = new InMemoryCollaborationProvider();
+        const modelA = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://a/collect.txt'));
+        const modelB = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://b/collect.txt'));
+        const bindingA = new CollaborationBinding(modelA, { provider, documentId: 'collect' });
+        const bindingB = new CollaborationBinding(modelB, { provider, documentId: 'collect' });
+        await bindingA.connect();
+        await bindingB.connect();
+
+        // the state is what a joining participant receives
+        let state: CollaborationState | undefined;
+        const connection = provider.connect('collect', message => {
+            if (message.type === 'sync' && message.siteId === bindingA.getSiteId()) {
+                state = message.state;
+            }
+        });
+        const getState = () => {
+            connection.send({ type: 'syncRequest', siteId: 'observer' });
+            connection.send({ type: 'leave', siteId: 'observer' });
+            return state!;
+        };
+
+        modelA.applyEdits([{ range: new Range(1, 6, 1, 12), text: '' }]);
+        vi.advanceTimersByTime(1000);
+        expect(getState().elements.map(element => element.visible)).toEqual([true, false]);
+
+        // the deletion can no longer be undone after enough other changes
+        for (let i = 0; i < 100; i++) {
+            vi.advanceTimersByTime(1000);
+            modelA.applyEdits([{ range: new Range(1, 6 + i, 1, 6 + i), text: '.' }]);
+        }
+        vi.advanceTimersByTime(1000);
+        expect(getState().elements).toEqual([
+            { id: { siteId: '', clock: 1 }, text: 'hello', visible: true, stamp: undefined },
+            { id: expect.objectContaining({ siteId: bindingA.getSiteId() }), text: '.'.repeat(100), visible: true, stamp: undefined }
+        ]);
+        expect(modelB.getValue()).toBe(`hello${'.'.repeat(100)}`);
+
+        connection.dispose();
+        bindingA.dispose();
+        bindingB.dispose();
+        modelA.dispose();
+        modelB.dispose();
+        vi.useRealTimers();
+    });
+
+    test('Remote colors and site ids are not written into the style sheet', async () => {
+        const provider = new InMemoryCollaborationProvider();
+        const model = editor.createModel('hello world', 'plaintext', Uri.parse('inmemory://a/style.txt'));
+        const htmlElement = document.createElement('div');
+        document.body.appendChild(htmlElement);
+        const codeEditor = editor.create(htmlElement, { model });
+        const binding = new CollaborationBinding(model, { provider, documentId: 'style' }, codeEditor);
+        await binding.connect();
+
+        const connection = provider.connect('style', () => undefined);
+        connection.send({ type: 'cursor', siteId: 'x{}body', color: 'red;}body{display:none', selections: [{ anchor: 0, head: 5 }] });
+        expect(binding.getParticipants()).toEqual(['x{}body']);
+
+        const styles = Array.from(document.head.querySelectorAll('style')).find(style => style.textContent?.includes('monaco-collaboration'));
+        expect(styles?.textContent).toContain(`.monaco-collaboration-${binding.getSiteId()}-0-cursor`);
+        expect(styles?.textContent).not.toContain('body');
+
+        connection.dispose();
+        binding.dispose();
+        codeEditor.dispose();
+        model.dispose();
+        htmlElement.remove();
+    });
+
+});
@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'vitest';
+import { ConfigValidationError, MonacoEditorLanguageClientWrapper, UserConfig, validateUserConfig } from 'monaco-editor-wrapper';
+import { createBaseConfig, createMonacoEditorDiv } from './helper.js';
+
+describe('Test validateUserConfig', () => {
+
+    test('Valid config has no diagnostics', () => {
+        createMonacoEditorDiv();
+        expect(validateUserConfig(createBaseConfig('classic'))).toEqual([]);
+    });
+
+    test('Diff editor without original code', () => {
+        createMonacoEditorDiv();
+        const userConfig = createBaseConfig('classic');
+        userConfig.wrapperConfig.editorAppConfig.useDiffEditor = true;
+        expect(validateUserConfig(userConfig)).toEqual([{
+            severity: 'error',
+            path: 'wrapperConfig.editorAppConfig.codeOriginal',
+            message: 'Use diff editor was used without a valid config.'
+        }]);
+    });
+
+    test('Unknown editor app type', () => {
+        createMonacoEditorDiv();
+        const userConfig = createBaseConfig('classic');
+        (userConfig.wrapperConfig.editorAppConfig as { $type: string }).$type = 'classical';
+        const diagnostics = validateUserConfig(userConfig);
+        expect(diagnostics.length).toBe(1);
+        expect(diagnostics[0].path).toBe('wrapperConfig.editorAppConfig.$type');
+    });
+
+    test('Classic properties on a vscodeApi app are reported as warning', () => {
+        createMonacoEditorDiv();
+        const userConfig = createBaseConfig('vscodeApi');
+        (userConfig.wrapperConfig.editorAppConfig as Record<string, unknown>).languageDef = {};
+        expect(validateUserConfig(userConfig)).toEqual([{
+            severity: 'warning',
+            path: 'wrapperConfig.editorAppConfig.languageDef',
+            message: '"languageDef" is ignored by the vscodeApi editor app.'
+        }]);
+    });
+
+    test('Web socket without host and with an invalid port', () => {
+        createMonacoEditorDiv();
+        const userConfig = createBaseConfig('classic');
+        userConfig.languageClientConfig = {
+            options: {
+                $type: 'WebSocket',
+                secured: false,
+                host: '',
+                port: 70000
+            }
+        };
+        expect(validateUserConfig(userConfig).map(diagnostic => diagnostic.path)).toEqual([
+            'languageClientConfig.options.host',
+            'languageClientConfig.options.port'
+        ]);
+    });
+
+    test('Web socket with invalid auth failure close codes', () => {
+        createMonacoEditorDiv();
+        const userConfig = createBaseConfig('classic');
+        userConfig.languageClientConfig = {
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'ws://localhost:3000/sampleServer',
+                authFailureCloseCodes: [4001, 200]
+            }
+        };
+        expect(validateUserConfig(userConfig)).toEqual([{
+            severity: 'error',
+            path: 'languageClientConfig.options.authFailureCloseCodes',
+            message: 'The auth failure close codes have to be web socket close codes between 1000 and 4999.'
+        }]);
+    });
+
+    test('Document selector with an invalid filter', () => {
+        createMonacoEditorDiv();
+        const userConfig = createBaseConfig('classic');
+        userConfig.languageClientConfig = {
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'ws://localhost:3000/sampleServer'
+            },
+            documentSelector: ['typescript', { scheme: 'file', pattern: '**/*.ts' }, {} as { language: string }]
+        };
+        expect(validateUserConfig(userConfig)).toEqual([{
+            severity: 'error',
+            path: 'languageClientConfig.documentSelector[2]',
+            message: 'A document filter needs at least a language, scheme or pattern.'
+        }]);
+    });
+
+    test('Relative worker url', () => {
+        createMonacoEditorDiv();
+        const userConfig = createBaseConfig('classic');
+        userConfig.languageClientConfigs = {
+            langium: {
+                options: {
+                    $type: 'WorkerConfig',
+                    url: './worker.js' as unknown as URL,
+                    type: 'module'
+                }
+            }
+        };
+        const diagnostics = validateUserConfig(userConfig);
+        expect(diagnostics.length).toBe(1);
+        expect(diagnostics[0].severity).toBe('error');
+        expect(diagnostics[0].path).toBe('languageClientConfigs.langium.options.url');
+    });
+
+    test('Start rejects an invalid config with all errors', async () => {
+        createMonacoEditorDiv();
+        const userConfig = createBaseConfig('classic');
+        userConfig.wrapperConfig.editorAppConfig.languageId = '';
+        userConfig.languageClientConfig = {
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'http://localhost:3000'
+            }
+        } as UserConfig['languageClientConfig'];
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const error = await wrapper.start(userConfig).catch(e => e);
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        expect((error as ConfigValidationError).diagnostics.map(diagnostic => diagnostic.path)).toEqual([
+            'wrapperConfig.editorAppConfig.languageId',
+            'languageClientConfig.options.url'
+        ]);
+        expect(wrapper.getEditor()).toBeUndefined();
+    });
+});
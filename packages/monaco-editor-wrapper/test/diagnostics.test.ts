@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest';
+import { editor, MarkerSeverity, Uri } from 'monaco-editor';
+import { DiagnosticsChangeEvent, DiagnosticsTracker } from 'monaco-editor-wrapper';
+
+const createMarker = (severity: MarkerSeverity, line: number, message: string): editor.IMarkerData => {
+    return { severity, message, startLineNumber: line, startColumn: 1, endLineNumber: line, endColumn: 5 };
+};
+
+describe('Test DiagnosticsTracker', () => {
+
+    test('Markers of the tracked models are collected, sorted and counted', () => {
+        const modelA = editor.createModel('a\nb\nc', 'plaintext', Uri.parse('/tmp/diagnostics1.txt'));
+        const modelB = editor.createModel('a', 'plaintext', Uri.parse('/tmp/diagnostics2.txt'));
+        const other = editor.createModel('a', 'plaintext', Uri.parse('/tmp/diagnostics3.txt'));
+        const tracker = new DiagnosticsTracker(() => [modelA.uri.toString(), modelB.uri.toString()]);
+
+        editor.setModelMarkers(modelA, 'lsp', [createMarker(MarkerSeverity.Warning, 3, 'third'), createMarker(MarkerSeverity.Error, 1, 'first')]);
+        editor.setModelMarkers(modelA, 'monarch', [createMarker(MarkerSeverity.Hint, 2, 'second')]);
+        editor.setModelMarkers(modelB, 'lsp', [createMarker(MarkerSeverity.Info, 1, 'other model')]);
+        editor.setModelMarkers(other, 'lsp', [createMarker(MarkerSeverity.Error, 1, 'not tracked')]);
+
+        expect(tracker.getDiagnostics().map(marker => marker.message)).toEqual(['first', 'second', 'third', 'other model']);
+        expect(tracker.getDiagnostics(modelA.uri.toString(), { owner: 'lsp' }).map(marker => marker.message)).toEqual(['first', 'third']);
+        expect(tracker.getDiagnostics(undefined, { severities: [MarkerSeverity.Error, MarkerSeverity.Warning] }).map(marker => marker.message))
+            .toEqual(['first', 'third']);
+        expect(tracker.getDiagnosticCounts()).toEqual({ errors: 1, warnings: 1, infos: 1, hints: 1, total: 4 });
+        expect(tracker.getDiagnosticCounts(modelB.uri.toString())).toEqual({ errors: 0, warnings: 0, infos: 1, hints: 0, total: 1 });
+
+        tracker.dispose();
+        modelA.dispose();
+        modelB.dispose();
+        other.dispose();
+    });
+
+    test('Changes of tracked models are fired after start', () => {
+        const model = editor.createModel('a', 'plaintext', Uri.parse('/tmp/diagnostics4.txt'));
+        const other = editor.createModel('a', 'plaintext', Uri.parse('/tmp/diagnostics5.txt'));
+        const tracker = new DiagnosticsTracker(() => [model.uri.toString()]);
+        const events: DiagnosticsChangeEvent[] = [];
+        tracker.onDidChangeDiagnostics(event => events.push(event));
+
+        editor.setModelMarkers(model, 'lsp', [createMarker(MarkerSeverity.Error, 1, 'before start')]);
+        tracker.start();
+        editor.setModelMarkers(other, 'lsp', [createMarker(MarkerSeverity.Error, 1, 'not tracked')]);
+        editor.setModelMarkers(model, 'lsp', []);
+        tracker.dispose();
+        editor.setModelMarkers(model, 'lsp', [createMarker(MarkerSeverity.Error, 1, 'after dispose')]);
+
+        expect(events).toEqual([{ uris: [model.uri.toString()] }]);
+
+        model.dispose();
+        other.dispose();
+    });
+});
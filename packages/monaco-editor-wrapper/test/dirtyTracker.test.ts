@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'vitest';
+import { editor, Uri } from 'monaco-editor';
+import { DirtyChangeEvent, DirtyStateTracker } from 'monaco-editor-wrapper';
+
+describe('Test DirtyStateTracker', () => {
+
+    test('Edits make the model dirty', () => {
+        const model = editor.createModel('hello', 'plaintext', Uri.parse('/tmp/dirty1.txt'));
+        const tracker = new DirtyStateTracker();
+        const events: DirtyChangeEvent[] = [];
+        tracker.onDidChangeDirty(event => events.push(event));
+        tracker.track(model);
+        expect(tracker.isDirty(model.uri.toString())).toBeFalsy();
+
+        model.pushEditOperations(null, [{ range: model.getFullModelRange(), text: 'hello world' }], () => null);
+        expect(tracker.isDirty(model.uri.toString())).toBeTruthy();
+        expect(tracker.getDirtyUris()).toEqual([model.uri.toString()]);
+        expect(events).toEqual([{ uri: model.uri.toString(), dirty: true }]);
+
+        tracker.dispose();
+        model.dispose();
+    });
+
+    test('markSaved makes the model clean', () => {
+        const model = editor.createModel('hello', 'plaintext', Uri.parse('/tmp/dirty2.txt'));
+        const tracker = new DirtyStateTracker();
+        tracker.track(model);
+
+        model.setValue('changed');
+        expect(tracker.isDirty(model.uri.toString())).toBeTruthy();
+        tracker.markSaved(model.uri.toString());
+        expect(tracker.isDirty(model.uri.toString())).toBeFalsy();
+
+        tracker.dispose();
+        model.dispose();
+    });
+
+    test('Disposed models are no longer tracked', () => {
+        const model = editor.createModel('hello', 'plaintext', Uri.parse('/tmp/dirty3.txt'));
+        const tracker = new DirtyStateTracker();
+        tracker.track(model);
+        model.setValue('changed');
+        model.dispose();
+
+        expect(tracker.getDirtyUris()).toEqual([]);
+    });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, test } from 'vitest';
+import { LocalStorageEditorStateStorage, LogEntry, Logger } from 'monaco-editor-wrapper';
+
+describe('Test LocalStorageEditorStateStorage', () => {
+
+    test('Stored states are loaded', async () => {
+        const storage = new LocalStorageEditorStateStorage('editor-state-test:');
+        const state = { uri: 'inmemory://model/a.ts', languageId: 'typescript', content: 'const a = 1;', timestamp: 1 };
+        await storage.save(state);
+        expect(await storage.load(state.uri)).toEqual(state);
+        await storage.remove(state.uri);
+        expect(await storage.load(state.uri)).toBeUndefined();
+    });
+
+    test('Invalid entries are removed with a warning', async () => {
+        const entries: LogEntry[] = [];
+        const storage = new LocalStorageEditorStateStorage('editor-state-test:', new Logger(undefined, { handler: entry => entries.push(entry) }));
+        localStorage.setItem('editor-state-test:inmemory://model/corrupt.ts', '{"content": "const a');
+        localStorage.setItem('editor-state-test:inmemory://model/foreign.ts', '42');
+
+        expect(await storage.load('inmemory://model/corrupt.ts')).toBeUndefined();
+        expect(await storage.load('inmemory://model/foreign.ts')).toBeUndefined();
+        expect(localStorage.getItem('editor-state-test:inmemory://model/corrupt.ts')).toBeNull();
+        expect(localStorage.getItem('editor-state-test:inmemory://model/foreign.ts')).toBeNull();
+        expect(entries.map(entry => entry.level)).toEqual(['warn', 'warn']);
+    });
+
+});
@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'vitest';
+import { MonacoEditorLanguageClientWrapper, TransportError, WrapperError, WrapperStateError } from 'monaco-editor-wrapper';
+
+describe('Test errors', () => {
+
+    test('Errors keep code, name and cause', () => {
+        const cause = new Error('socket closed');
+        const error = new TransportError('TRANSPORT_WEBSOCKET_FAILED', 'Websocket connection failed.', cause);
+        expect(error).toBeInstanceOf(WrapperError);
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe('TransportError');
+        expect(error.code).toBe('TRANSPORT_WEBSOCKET_FAILED');
+        expect(error.cause).toBe(cause);
+    });
+
+    test('Calls on a wrapper that was not started reject with a state error', async () => {
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        await expect(wrapper.updateEditorOptions({})).rejects.toBeInstanceOf(WrapperStateError);
+        await expect(wrapper.setEditorMode('diff')).rejects.toMatchObject({ code: 'EDITOR_NOT_STARTED' });
+    });
+});
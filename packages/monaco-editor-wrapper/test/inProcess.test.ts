@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'vitest';
+import { createMessageConnection, RequestType } from 'vscode-languageserver-protocol/browser.js';
+import { createInProcessMessageTransports } from 'monaco-editor-wrapper';
+
+const echoRequest = new RequestType<string, string, void>('test/echo');
+
+describe('Test in-process transports', () => {
+
+    test('Requests are answered by the server', async () => {
+        const clientTransports = createInProcessMessageTransports(serverTransports => {
+            const serverConnection = createMessageConnection(serverTransports.reader, serverTransports.writer);
+            serverConnection.onRequest(echoRequest, param => `echo: ${param}`);
+            serverConnection.listen();
+        });
+        const clientConnection = createMessageConnection(clientTransports.reader, clientTransports.writer);
+        clientConnection.listen();
+
+        expect(await clientConnection.sendRequest(echoRequest, 'hello')).toBe('echo: hello');
+        clientConnection.dispose();
+    });
+
+    test('Ending the client writer closes the server reader', async () => {
+        let serverClosed = false;
+        const clientTransports = createInProcessMessageTransports(serverTransports => {
+            serverTransports.reader.onClose(() => {
+                serverClosed = true;
+            });
+        });
+        clientTransports.writer.end();
+        expect(serverClosed).toBeTruthy();
+    });
+});
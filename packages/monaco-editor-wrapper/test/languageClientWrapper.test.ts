@@ -1,8 +1,114 @@
-import { describe, expect, test } from 'vitest';
+import { afterEach, describe, expect, test, vi } from 'vitest';
 import { LanguageClientConfig, LanguageClientWrapper } from 'monaco-editor-wrapper';
+import { MonacoLanguageClient } from 'monaco-languageclient';
+import { State } from 'vscode-languageclient/lib/common/client.js';
+import { BrowserMessageReader, BrowserMessageWriter, createProtocolConnection, InitializeRequest, ShutdownRequest } from 'vscode-languageserver-protocol/browser.js';
+
+/**
+ * Web socket connected to a minimal language server answering every request. Connections are refused while
+ * accept is false and requests are left unanswered while answer is false.
+ */
+class FakeWebSocket extends EventTarget {
+
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSED = 3;
+    static instances: FakeWebSocket[] = [];
+    static accept = true;
+    static answer = true;
+
+    readyState: number = FakeWebSocket.CONNECTING;
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: string }) => void) | null = null;
+    onerror: ((event: Event) => void) | null = null;
+    onclose: ((event: CloseEvent) => void) | null = null;
+    readonly url: string;
+
+    constructor(url: string) {
+        super();
+        this.url = url;
+        FakeWebSocket.instances.push(this);
+        setTimeout(() => {
+            if (FakeWebSocket.accept) {
+                this.readyState = FakeWebSocket.OPEN;
+                this.onopen?.();
+            } else {
+                this.onerror?.(new Event('error'));
+                this.closeByServer(1006);
+            }
+        });
+    }
+
+    send(content: string) {
+        const message = JSON.parse(content);
+        if (this.readyState !== FakeWebSocket.OPEN || !FakeWebSocket.answer || message.id === undefined || message.method === undefined) {
+            return;
+        }
+        const result = message.method === 'initialize' ? { capabilities: {} } : null;
+        setTimeout(() => this.onmessage?.({ data: JSON.stringify({ jsonrpc: '2.0', id: message.id, result }) }));
+    }
+
+    close() {
+        this.closeByServer(1000);
+    }
+
+    closeByServer(code: number) {
+        if (this.readyState === FakeWebSocket.CLOSED) {
+            return;
+        }
+        this.readyState = FakeWebSocket.CLOSED;
+        const event = new CloseEvent('close', { code });
+        this.dispatchEvent(event);
+        this.onclose?.(event);
+    }
+}
+
+const useFakeWebSocket = () => {
+    FakeWebSocket.instances = [];
+    FakeWebSocket.accept = true;
+    FakeWebSocket.answer = true;
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+};
+
+/**
+ * Minimal language server connected to the given port, it answers the custom request test/ping with pong.
+ */
+const listenOnPort = (port: MessagePort) => {
+    const serverConnection = createProtocolConnection(new BrowserMessageReader(port), new BrowserMessageWriter(port));
+    serverConnection.onRequest(InitializeRequest.type, () => ({ capabilities: {} }));
+    serverConnection.onRequest(ShutdownRequest.type, () => undefined);
+    serverConnection.onRequest('test/ping', () => 'pong');
+    serverConnection.listen();
+};
+
+/**
+ * Shared worker running the server of listenOnPort. Errors of the worker are raised with fail.
+ */
+class FakeSharedWorker extends EventTarget {
+
+    static instances: FakeSharedWorker[] = [];
+
+    readonly port: MessagePort;
+
+    constructor() {
+        super();
+        const channel = new MessageChannel();
+        listenOnPort(channel.port2);
+        this.port = channel.port1;
+        FakeSharedWorker.instances.push(this);
+    }
+
+    fail() {
+        this.dispatchEvent(new ErrorEvent('error', { error: new Error('worker failed') }));
+    }
+}
 
 describe('Test LanguageClientWrapper', () => {
 
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
     test('Not Running after construction', () => {
         const languageClientWrapper = new LanguageClientWrapper();
         expect(languageClientWrapper.haveLanguageClient()).toBeFalsy();
@@ -14,9 +120,10 @@ describe('Test LanguageClientWrapper', () => {
         const languageClientWrapper = new LanguageClientWrapper();
         expect(async () => {
             await languageClientWrapper.start();
-        }).rejects.toEqual({
-            message: 'languageClientWrapper (undefined): Unable to start monaco-languageclient. No configuration was provided.',
-            error: 'No error was provided.'
+        }).rejects.toMatchObject({
+            name: 'WrapperConfigError',
+            code: 'CONFIG_MISSING',
+            message: 'languageClientWrapper (undefined): Unable to start monaco-languageclient. No configuration was provided.'
         });
     });
 
@@ -41,9 +148,10 @@ describe('Test LanguageClientWrapper', () => {
         };
         const languageClientWrapper = new LanguageClientWrapper(languageClientConfig);
         expect(languageClientWrapper.haveLanguageClientConfig()).toBeTruthy();
-        await expect(languageClientWrapper.start()).rejects.toEqual({
-            message: 'languageClientWrapper (test-unreachable): Websocket connection failed.',
-            error: 'No error was provided.'
+        await expect(languageClientWrapper.start()).rejects.toMatchObject({
+            name: 'TransportError',
+            code: 'TRANSPORT_WEBSOCKET_FAILED',
+            message: 'languageClientWrapper (test-unreachable): Websocket connection failed.'
         });
     });
 
@@ -68,10 +176,240 @@ describe('Test LanguageClientWrapper', () => {
         };
         const languageClientWrapper = new LanguageClientWrapper(languageClientConfig);
         expect(languageClientWrapper.haveLanguageClientConfig()).toBeTruthy();
-        await expect(languageClientWrapper.start()).rejects.toEqual({
-            message: 'languageClientWrapper (unnamed): Illegal worker configuration detected. Potentially the url is wrong.',
-            error: 'No error was provided.'
+        await expect(languageClientWrapper.start()).rejects.toMatchObject({
+            name: 'TransportError',
+            code: 'TRANSPORT_WORKER_FAILED',
+            message: 'languageClientWrapper (unnamed): Illegal worker configuration detected. Potentially the url is wrong.'
+        });
+    });
+
+    test('Start: unreachable shared worker url', async () => {
+        const languageClientConfig: LanguageClientConfig = {
+            options: {
+                $type: 'SharedWorkerConfig',
+                url: new URL('http://localhost:63315'),
+                type: 'classic'
+            }
+        };
+        const languageClientWrapper = new LanguageClientWrapper(languageClientConfig);
+        await expect(languageClientWrapper.start()).rejects.toMatchObject({
+            name: 'TransportError',
+            code: 'TRANSPORT_WORKER_FAILED',
+            message: 'languageClientWrapper (unnamed): Illegal shared worker configuration detected. Potentially the url is wrong.'
         });
     });
 
+    test('Start: failing token provider', async () => {
+        const languageClientConfig: LanguageClientConfig = {
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'ws://localhost:12345/Tester',
+                name: 'test-token',
+                tokenProvider: () => Promise.reject(new Error('session expired'))
+            }
+        };
+        const languageClientWrapper = new LanguageClientWrapper(languageClientConfig);
+        await expect(languageClientWrapper.start()).rejects.toMatchObject({
+            name: 'TransportError',
+            code: 'TRANSPORT_WEBSOCKET_AUTH_FAILED',
+            message: 'languageClientWrapper (test-token): Requesting the token failed.'
+        });
+    });
+
+    test('Start: the token provider is called before each connect', async () => {
+        let calls = 0;
+        const languageClientConfig: LanguageClientConfig = {
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'ws://localhost:12345/Tester',
+                tokenProvider: async () => `token${++calls}`
+            }
+        };
+        const languageClientWrapper = new LanguageClientWrapper(languageClientConfig);
+        await expect(languageClientWrapper.start()).rejects.toMatchObject({ code: 'TRANSPORT_WEBSOCKET_FAILED' });
+        await expect(languageClientWrapper.start()).rejects.toMatchObject({ code: 'TRANSPORT_WEBSOCKET_FAILED' });
+        expect(calls).toBe(2);
+    });
+
+    test('Start: aborted signal', async () => {
+        const languageClientConfig: LanguageClientConfig = {
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'ws://localhost:12345/Tester',
+                name: 'test-aborted'
+            }
+        };
+        const languageClientWrapper = new LanguageClientWrapper(languageClientConfig);
+        const abortController = new AbortController();
+        abortController.abort('unmounted');
+        await expect(languageClientWrapper.start(abortController.signal)).rejects.toMatchObject({
+            name: 'StartAbortedError',
+            code: 'START_ABORTED',
+            message: 'languageClientWrapper (test-aborted): Start was aborted.',
+            cause: 'unmounted'
+        });
+        expect(languageClientWrapper.haveLanguageClient()).toBeFalsy();
+    });
+
+    test('Start: an aborted start leaves no languageclient behind', async () => {
+        useFakeWebSocket();
+        FakeWebSocket.answer = false;
+        const languageClientWrapper = new LanguageClientWrapper({
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'ws://localhost:12345/Tester',
+                name: 'test-aborted-starting'
+            }
+        });
+        const abortController = new AbortController();
+        let languageClient: MonacoLanguageClient | undefined;
+        languageClientWrapper.onDidCreate(created => {
+            languageClient = created;
+            // abort while the languageclient waits for the answer of the initialize request
+            setTimeout(() => abortController.abort('unmounted'));
+        });
+        await expect(languageClientWrapper.start(abortController.signal)).rejects.toMatchObject({
+            code: 'START_ABORTED'
+        });
+
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(languageClient).toBeDefined();
+        expect(languageClient!.state).toBe(State.Stopped);
+        expect(languageClientWrapper.haveLanguageClient()).toBeFalsy();
+        expect(FakeWebSocket.instances[0].readyState).toBe(FakeWebSocket.CLOSED);
+    });
+
+    test('Reconnect: a lost connection is re-established with backoff until maxAttempts is reached', async () => {
+        useFakeWebSocket();
+        const reconnecting: Array<[number, number]> = [];
+        let reconnected: (attempt: number) => void = () => {};
+        let gaveUp: (attempts: number) => void = () => {};
+        const languageClientWrapper = new LanguageClientWrapper({
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'ws://localhost:12345/Tester',
+                reconnectOptions: {
+                    maxAttempts: 3,
+                    initialDelay: 10,
+                    multiplier: 2,
+                    jitter: 0,
+                    onReconnecting: (attempt, delay) => reconnecting.push([attempt, delay]),
+                    onReconnected: attempt => reconnected(attempt),
+                    onGaveUp: attempts => gaveUp(attempts)
+                }
+            }
+        });
+        await languageClientWrapper.start();
+        expect(languageClientWrapper.isStarted()).toBeTruthy();
+
+        const reconnectedAttempt = new Promise<number>(resolve => reconnected = resolve);
+        FakeWebSocket.instances[0].closeByServer(1006);
+        expect(await reconnectedAttempt).toBe(1);
+        expect(reconnecting).toEqual([[1, 10]]);
+        expect(FakeWebSocket.instances.length).toBe(2);
+        expect(languageClientWrapper.isStarted()).toBeTruthy();
+
+        // the server is gone for good now
+        FakeWebSocket.accept = false;
+        reconnecting.length = 0;
+        const gaveUpAttempts = new Promise<number>(resolve => gaveUp = resolve);
+        FakeWebSocket.instances[1].closeByServer(1006);
+        expect(await gaveUpAttempts).toBe(3);
+        expect(reconnecting).toEqual([[1, 10], [2, 20], [3, 40]]);
+        expect(FakeWebSocket.instances.length).toBe(5);
+        expect(languageClientWrapper.isStarted()).toBeFalsy();
+    });
+
+    test('Reconnect: dispose cancels a pending reconnect', async () => {
+        useFakeWebSocket();
+        let reconnecting: () => void = () => {};
+        let reconnected = false;
+        const languageClientWrapper = new LanguageClientWrapper({
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'ws://localhost:12345/Tester',
+                reconnectOptions: {
+                    initialDelay: 50,
+                    jitter: 0,
+                    onReconnecting: () => reconnecting(),
+                    onReconnected: () => reconnected = true
+                }
+            }
+        });
+        await languageClientWrapper.start();
+
+        const reconnectScheduled = new Promise<void>(resolve => reconnecting = resolve);
+        FakeWebSocket.instances[0].closeByServer(1006);
+        await reconnectScheduled;
+        await languageClientWrapper.disposeLanguageClient();
+
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(FakeWebSocket.instances.length).toBe(1);
+        expect(reconnected).toBeFalsy();
+        expect(languageClientWrapper.haveLanguageClient()).toBeFalsy();
+    });
+
+    test('Dispose: a failing dispose does not reconnect afterwards', async () => {
+        useFakeWebSocket();
+        const reconnectAttempts: number[] = [];
+        const languageClientWrapper = new LanguageClientWrapper({
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'ws://localhost:12345/Tester',
+                reconnectOptions: {
+                    initialDelay: 10,
+                    jitter: 0,
+                    onReconnecting: attempt => reconnectAttempts.push(attempt)
+                }
+            }
+        });
+        await languageClientWrapper.start();
+        vi.spyOn(languageClientWrapper.getLanguageClient()!, 'dispose').mockRejectedValue(new Error('shutdown failed'));
+
+        await expect(languageClientWrapper.disposeLanguageClient()).rejects.toHaveProperty('code', 'DISPOSE_FAILED');
+        expect(languageClientWrapper.haveLanguageClient()).toBeFalsy();
+        FakeWebSocket.instances[0].closeByServer(1006);
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(reconnectAttempts).toEqual([]);
+        expect(FakeWebSocket.instances.length).toBe(1);
+    });
+
+    test('Restart: errors of a kept shared worker reject the current start', async () => {
+        FakeSharedWorker.instances = [];
+        vi.stubGlobal('SharedWorker', FakeSharedWorker);
+        const languageClientWrapper = new LanguageClientWrapper({
+            options: {
+                $type: 'SharedWorkerConfig',
+                url: new URL('http://localhost/worker.js'),
+                type: 'module'
+            }
+        });
+        await languageClientWrapper.start();
+
+        languageClientWrapper.onDidCreate(() => FakeSharedWorker.instances[0].fail());
+        await expect(languageClientWrapper.restartLanguageClient(undefined, true)).rejects.toHaveProperty('code', 'TRANSPORT_WORKER_FAILED');
+        expect(FakeSharedWorker.instances.length).toBe(1);
+    });
+
+    test('Dispose: a port passed by the caller stays open', async () => {
+        const channel = new MessageChannel();
+        listenOnPort(channel.port2);
+        const languageClientWrapper = new LanguageClientWrapper({
+            options: {
+                $type: 'MessagePort',
+                port: channel.port1
+            }
+        });
+        await languageClientWrapper.start();
+        await languageClientWrapper.disposeLanguageClient();
+        expect(languageClientWrapper.getMessagePort()).toBeUndefined();
+
+        // the port was not closed, so the next languageclient still reaches the server through it
+        await languageClientWrapper.start();
+        expect(languageClientWrapper.getMessagePort()).toBe(channel.port1);
+        expect(await languageClientWrapper.getLanguageClient()!.sendRequest('test/ping')).toBe('pong');
+        await languageClientWrapper.disposeLanguageClient();
+    });
+
 });
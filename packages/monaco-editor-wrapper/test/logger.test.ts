@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'vitest';
+import { LogEntry, Logger } from 'monaco-editor-wrapper';
+
+describe('Test Logger', () => {
+
+    test('Entries are tagged with the wrapper id', () => {
+        const entries: LogEntry[] = [];
+        const logger = new Logger('42', {
+            handler: entry => entries.push(entry)
+        });
+        logger.info('Hello', { answer: 42 });
+
+        expect(entries.length).toBe(1);
+        expect(entries[0].wrapperId).toBe('42');
+        expect(entries[0].level).toBe('info');
+        expect(entries[0].message).toBe('Hello');
+        expect(entries[0].data).toEqual({ answer: 42 });
+    });
+
+    test('Entries below the configured level are dropped', () => {
+        const entries: LogEntry[] = [];
+        const logger = new Logger('42', {
+            level: 'warn',
+            handler: entry => entries.push(entry)
+        });
+        logger.debug('debug');
+        logger.info('info');
+        logger.warn('warn');
+        logger.error('error');
+
+        expect(entries.map(entry => entry.level)).toEqual(['warn', 'error']);
+    });
+
+    test('Level off drops all entries', () => {
+        const entries: LogEntry[] = [];
+        const logger = new Logger(undefined, {
+            level: 'off',
+            handler: entry => entries.push(entry)
+        });
+        logger.error('error');
+
+        expect(entries.length).toBe(0);
+        expect(logger.isEnabled('error')).toBeFalsy();
+    });
+
+});
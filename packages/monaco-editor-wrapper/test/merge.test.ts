@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'vitest';
+import { findMergeConflicts, mergeThreeWay } from 'monaco-editor-wrapper';
+
+describe('mergeThreeWay', () => {
+
+    test('test mergeThreeWay: changes on different lines are merged', () => {
+        const result = mergeThreeWay('a\nb\nc', 'a\nB\nc', 'a\nb\nC');
+        expect(result).toEqual({ text: 'a\nB\nC', conflictCount: 0 });
+    });
+
+    test('test mergeThreeWay: identical changes are no conflict', () => {
+        const result = mergeThreeWay('a\nb\nc', 'a\nB\nc', 'a\nB\nc');
+        expect(result).toEqual({ text: 'a\nB\nc', conflictCount: 0 });
+    });
+
+    test('test mergeThreeWay: insertions at start and end', () => {
+        const result = mergeThreeWay('a\nb\nc', 'x\na\nb\nc', 'a\nb\nc\ny');
+        expect(result).toEqual({ text: 'x\na\nb\nc\ny', conflictCount: 0 });
+    });
+
+    test('test mergeThreeWay: overlapping changes create a conflict', () => {
+        const result = mergeThreeWay('a\nb\nc', 'a\nB\nc', 'a\nX\nc', 'local', 'server');
+        expect(result).toEqual({
+            text: 'a\n<<<<<<< local\nB\n=======\nX\n>>>>>>> server\nc',
+            conflictCount: 1
+        });
+    });
+
+    test('test mergeThreeWay: changes in large texts are merged', () => {
+        const base = Array.from({ length: 10000 }, (_, i) => `line ${i}`);
+        const ours = [...base];
+        ours[5000] = 'ours';
+        const theirs = [...base];
+        theirs[9000] = 'theirs';
+        const expected = [...ours];
+        expected[9000] = 'theirs';
+        const result = mergeThreeWay(base.join('\n'), ours.join('\n'), theirs.join('\n'));
+        expect(result).toEqual({ text: expected.join('\n'), conflictCount: 0 });
+    });
+
+    test('test mergeThreeWay: too many differences are one conflict', () => {
+        const base = Array.from({ length: 10000 }, (_, i) => `line ${i}`);
+        const ours = base.map(line => `${line} ours`);
+        const theirs = base.map(line => `${line} theirs`);
+        const result = mergeThreeWay(base.join('\n'), ours.join('\n'), theirs.join('\n'));
+        expect(result.conflictCount).toBe(1);
+    });
+
+});
+
+describe('findMergeConflicts', () => {
+
+    test('test findMergeConflicts: conflict regions', () => {
+        const text = 'a\n<<<<<<< ours\nB\n=======\nX\n>>>>>>> theirs\nc\n<<<<<<< ours\n=======\nY\n>>>>>>> theirs';
+        expect(findMergeConflicts(text)).toEqual([
+            { startLine: 2, separatorLine: 4, endLine: 6 },
+            { startLine: 8, separatorLine: 9, endLine: 11 }
+        ]);
+    });
+
+    test('test findMergeConflicts: incomplete region is ignored', () => {
+        expect(findMergeConflicts('<<<<<<< ours\nB\n=======\nX')).toEqual([]);
+    });
+
+});
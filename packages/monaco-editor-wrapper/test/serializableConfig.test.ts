@@ -0,0 +1,138 @@
+import { describe, expect, test } from 'vitest';
+import { EditorAppConfigClassic, EditorAppConfigVscodeApi, LocalStorageEditorStateStorage, loadUserConfig, SerializedUserConfig, serializeUserConfig, UserConfig, WorkerConfigOptions } from 'monaco-editor-wrapper';
+
+const htmlElement = document.createElement('div');
+
+describe('Test serializable config', () => {
+
+    test('Serialized config survives a round trip', () => {
+        const serializedConfig: SerializedUserConfig = {
+            id: 'customer-a',
+            wrapperConfig: {
+                serviceConfig: {
+                    enableThemeService: true,
+                    configureEditorOrViewsService: {
+                        enableViewsService: false
+                    }
+                },
+                editorAppConfig: {
+                    $type: 'vscodeApi',
+                    languageId: 'statemachine',
+                    code: 'statemachine Test',
+                    useDiffEditor: false,
+                    extensionFilesOrContents: {
+                        '/statemachine-configuration.json': { url: 'https://example.com/language-configuration.json' },
+                        '/statemachine-grammar.json': '{}'
+                    }
+                }
+            },
+            languageClientConfig: {
+                options: {
+                    $type: 'WebSocket',
+                    secured: false,
+                    host: 'localhost',
+                    port: 3000,
+                    reconnectOptions: {
+                        maxAttempts: 3
+                    }
+                },
+                startTimeout: 5000
+            },
+            languageClientConfigs: {
+                langium: {
+                    options: {
+                        $type: 'WorkerConfig',
+                        url: 'https://example.com/worker.js',
+                        type: 'module'
+                    }
+                }
+            },
+            logger: {
+                level: 'warn'
+            },
+            editorStateConfig: {
+                restoreContent: false,
+                storage: {
+                    type: 'localStorage',
+                    keyPrefix: 'customer-a:'
+                }
+            }
+        };
+
+        const userConfig = loadUserConfig(JSON.stringify(serializedConfig), { htmlElement });
+        expect(userConfig.htmlElement).toBe(htmlElement);
+        const editorAppConfig = userConfig.wrapperConfig.editorAppConfig as EditorAppConfigVscodeApi;
+        expect(editorAppConfig.extensionFilesOrContents?.get('/statemachine-configuration.json')).toBeInstanceOf(URL);
+        expect((userConfig.languageClientConfigs?.langium.options as WorkerConfigOptions).url).toBeInstanceOf(URL);
+        expect(userConfig.editorStateConfig?.storage).toBeInstanceOf(LocalStorageEditorStateStorage);
+
+        expect(JSON.parse(JSON.stringify(serializeUserConfig(userConfig)))).toEqual(serializedConfig);
+    });
+
+    test('Relative worker urls are resolved against the base url', () => {
+        const userConfig = loadUserConfig({
+            wrapperConfig: {
+                editorAppConfig: {
+                    $type: 'classic',
+                    languageId: 'typescript',
+                    code: '',
+                    useDiffEditor: false
+                }
+            },
+            languageClientConfig: {
+                options: {
+                    $type: 'WorkerConfig',
+                    url: './worker/server.js',
+                    type: 'classic'
+                }
+            }
+        }, { htmlElement, baseUrl: 'https://example.com/app/' });
+        expect((userConfig.languageClientConfig?.options as WorkerConfigOptions).url.href).toBe('https://example.com/app/worker/server.js');
+    });
+
+    test('Regular expressions of the monarch definition survive a round trip', () => {
+        const userConfig: UserConfig = {
+            htmlElement,
+            wrapperConfig: {
+                editorAppConfig: {
+                    $type: 'classic',
+                    languageId: 'mylang',
+                    code: '',
+                    useDiffEditor: false,
+                    languageDef: {
+                        keywords: ['if', 'else'],
+                        tokenizer: {
+                            root: [[/[a-z_$][\w$]*/i, 'identifier']]
+                        }
+                    }
+                }
+            }
+        };
+        const serializedConfig = JSON.parse(JSON.stringify(serializeUserConfig(userConfig)));
+        const loadedConfig = loadUserConfig(serializedConfig, { htmlElement });
+        expect((loadedConfig.wrapperConfig.editorAppConfig as EditorAppConfigClassic).languageDef).toEqual(
+            (userConfig.wrapperConfig.editorAppConfig as EditorAppConfigClassic).languageDef);
+    });
+
+    test('Live objects cannot be serialized', () => {
+        const userConfig: UserConfig = {
+            htmlElement,
+            wrapperConfig: {
+                editorAppConfig: {
+                    $type: 'classic',
+                    languageId: 'typescript',
+                    code: '',
+                    useDiffEditor: false
+                }
+            },
+            languageClientConfig: {
+                options: {
+                    $type: 'WorkerDirect',
+                    worker: {} as Worker
+                }
+            },
+            saveHandler: () => {}
+        };
+        expect(() => serializeUserConfig(userConfig)).toThrowError('The config contains values that cannot be serialized: languageClientConfig.options, saveHandler');
+    });
+});
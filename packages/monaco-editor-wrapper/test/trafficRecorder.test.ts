@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'vitest';
+import { createMessageConnection, NotificationType, RequestType } from 'vscode-languageserver-protocol/browser.js';
+import { createInProcessMessageTransports, createReplayServer, LspTrafficRecorder, parseLspTrafficRecording } from 'monaco-editor-wrapper';
+
+const echoRequest = new RequestType<string, string, void>('test/echo');
+const logNotification = new NotificationType<string>('test/log');
+
+const startEchoServer = () => createInProcessMessageTransports(serverTransports => {
+    const serverConnection = createMessageConnection(serverTransports.reader, serverTransports.writer);
+    serverConnection.onRequest(echoRequest, param => {
+        serverConnection.sendNotification(logNotification, `received ${param}`);
+        return `echo: ${param}`;
+    });
+    serverConnection.listen();
+});
+
+describe('Test LspTrafficRecorder', () => {
+
+    test('Messages are recorded with direction and method', async () => {
+        const recorder = new LspTrafficRecorder();
+        const clientTransports = recorder.tap(startEchoServer());
+        const clientConnection = createMessageConnection(clientTransports.reader, clientTransports.writer);
+        clientConnection.listen();
+
+        expect(await clientConnection.sendRequest(echoRequest, 'hello')).toBe('echo: hello');
+        expect(recorder.getMessages().map(recorded => [recorded.direction, recorded.method])).toEqual([
+            ['send', 'test/echo'],
+            ['receive', 'test/log'],
+            ['receive', 'test/echo']
+        ]);
+        expect(recorder.getMessages({ methods: ['test/log'] }).length).toBe(1);
+        expect(recorder.getMessages({ direction: 'send' }).length).toBe(1);
+        clientConnection.dispose();
+    });
+
+    test('Only the configured methods are recorded', async () => {
+        const recorder = new LspTrafficRecorder({ methods: ['test/log'] });
+        const clientTransports = recorder.tap(startEchoServer());
+        const clientConnection = createMessageConnection(clientTransports.reader, clientTransports.writer);
+        clientConnection.listen();
+
+        await clientConnection.sendRequest(echoRequest, 'hello');
+        expect(recorder.getMessages().map(recorded => recorded.method)).toEqual(['test/log']);
+        clientConnection.dispose();
+    });
+
+    test('An exported recording is replayed by a fake server', async () => {
+        const recorder = new LspTrafficRecorder();
+        const clientTransports = recorder.tap(startEchoServer());
+        const clientConnection = createMessageConnection(clientTransports.reader, clientTransports.writer);
+        clientConnection.listen();
+        await clientConnection.sendRequest(echoRequest, 'hello');
+        clientConnection.dispose();
+        const recording = recorder.export();
+
+        const logs: string[] = [];
+        const replayTransports = createInProcessMessageTransports(createReplayServer(recording));
+        const replayConnection = createMessageConnection(replayTransports.reader, replayTransports.writer);
+        replayConnection.onNotification(logNotification, message => logs.push(message));
+        replayConnection.listen();
+
+        // an unrecorded request is never answered, but the next request gets another id than the recorded one
+        replayConnection.sendRequest(new RequestType<string, string, void>('test/other'), 'ignored').catch(() => undefined);
+        expect(await replayConnection.sendRequest(echoRequest, 'hello')).toBe('echo: hello');
+        expect(logs).toEqual(['received hello']);
+        replayConnection.dispose();
+    });
+
+    test('Invalid recordings are rejected', () => {
+        expect(() => parseLspTrafficRecording('{"messages": []}')).toThrowError('The traffic recording has an unknown format.');
+    });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'vitest';
-import { WebSocketConfigOptions, WebSocketConfigOptionsUrl, createUrl } from 'monaco-editor-wrapper';
+import { WebSocketConfigOptions, WebSocketConfigOptionsUrl, computeMinimalEdit, computeReconnectDelay, createUrl, globToRegExp, matchDocumentSelector } from 'monaco-editor-wrapper';
 
 describe('createUrl', () => {
 
@@ -121,4 +121,129 @@ describe('createUrl', () => {
         } as WebSocketConfigOptionsUrl)).toThrowError('This is not a proper websocket url: http://www.testme.com:3000/sampleServer');
     });
 
+    test('test createUrl: query parameters and token', () => {
+        const url = createUrl({
+            $type: 'WebSocket',
+            secured: true,
+            host: 'localhost',
+            path: 'sampleServer',
+            queryParams: {
+                tenant: 'a b'
+            }
+        }, 'secret');
+
+        expect(url).toBe('wss://localhost/sampleServer?tenant=a+b&access_token=secret');
+    });
+
+    test('test createUrl: token with custom parameter name is appended to an url with query', () => {
+        const url = createUrl({
+            $type: 'WebSocketUrl',
+            url: 'ws://localhost:3000/sampleServer?version=2',
+            tokenQueryParam: 'token'
+        }, 'secret');
+
+        expect(url).toBe('ws://localhost:3000/sampleServer?version=2&token=secret');
+    });
+
+    test('test createUrl: parameters are added to the query in front of the fragment', () => {
+        const url = createUrl({
+            $type: 'WebSocketUrl',
+            url: 'wss://localhost/sampleServer?version=2&access_token=old#session',
+            queryParams: {
+                tenant: 'a'
+            }
+        }, 'secret');
+
+        expect(url).toBe('wss://localhost/sampleServer?version=2&access_token=secret&tenant=a#session');
+    });
+
+});
+
+describe('computeReconnectDelay', () => {
+
+    test('test computeReconnectDelay: defaults, no jitter', () => {
+        const noJitter = () => 0.5;
+        expect(computeReconnectDelay({}, 1, noJitter)).toBe(1000);
+        expect(computeReconnectDelay({}, 2, noJitter)).toBe(2000);
+        expect(computeReconnectDelay({}, 3, noJitter)).toBe(4000);
+    });
+
+    test('test computeReconnectDelay: limited by maxDelay', () => {
+        const delay = computeReconnectDelay({
+            initialDelay: 500,
+            maxDelay: 3000,
+            jitter: 0
+        }, 10);
+
+        expect(delay).toBe(3000);
+    });
+
+    test('test computeReconnectDelay: jitter bounds', () => {
+        const options = {
+            initialDelay: 1000,
+            multiplier: 3,
+            jitter: 0.2
+        };
+        expect(computeReconnectDelay(options, 2, () => 0)).toBe(2400);
+        expect(computeReconnectDelay(options, 2, () => 1)).toBe(3600);
+    });
+
+});
+
+describe('computeMinimalEdit', () => {
+
+    test('test computeMinimalEdit: equal texts', () => {
+        expect(computeMinimalEdit('const a = 1;', 'const a = 1;')).toBeUndefined();
+    });
+
+    test('test computeMinimalEdit: insert, delete and replace', () => {
+        expect(computeMinimalEdit('const a = 1;', 'const ab = 1;')).toEqual({ offset: 7, length: 0, text: 'b' });
+        expect(computeMinimalEdit('const ab = 1;', 'const a = 1;')).toEqual({ offset: 7, length: 1, text: '' });
+        expect(computeMinimalEdit('const a = 1;', 'const a = 42;')).toEqual({ offset: 10, length: 1, text: '42' });
+        expect(computeMinimalEdit('', 'abc')).toEqual({ offset: 0, length: 0, text: 'abc' });
+    });
+
+    test('test computeMinimalEdit: repeated characters', () => {
+        expect(computeMinimalEdit('aaa', 'aaaa')).toEqual({ offset: 3, length: 0, text: 'a' });
+        expect(computeMinimalEdit('abab', 'ab')).toEqual({ offset: 2, length: 2, text: '' });
+    });
+
+    test('test computeMinimalEdit: surrogate pairs are not split', () => {
+        expect(computeMinimalEdit('a\u{1F600}b', 'a\u{1F601}b')).toEqual({ offset: 1, length: 2, text: '\u{1F601}' });
+    });
+
+});
+
+describe('matchDocumentSelector', () => {
+
+    test('test globToRegExp', () => {
+        expect(globToRegExp('**/*.{ts,js}').test('/workspace/src/main.ts')).toBeTruthy();
+        expect(globToRegExp('**/*.{ts,js}').test('main.js')).toBeTruthy();
+        expect(globToRegExp('**/*.{ts,js}').test('/workspace/main.json')).toBeFalsy();
+        expect(globToRegExp('/workspace/*.ts').test('/workspace/src/main.ts')).toBeFalsy();
+        expect(globToRegExp('file?.[!0-9]').test('file1.a')).toBeTruthy();
+        expect(globToRegExp('file?.[!0-9]').test('file1.1')).toBeFalsy();
+    });
+
+    test('test matchDocumentSelector: language ids', () => {
+        expect(matchDocumentSelector(['json', 'typescript'], 'file:///workspace/main.ts', 'typescript')).toBeTruthy();
+        expect(matchDocumentSelector(['json'], 'file:///workspace/main.ts', 'typescript')).toBeFalsy();
+        expect(matchDocumentSelector([], 'file:///workspace/main.ts', 'typescript')).toBeFalsy();
+    });
+
+    test('test matchDocumentSelector: filters', () => {
+        const selector = [{ language: 'json', scheme: 'file', pattern: '**/*.config.json' }];
+        expect(matchDocumentSelector(selector, 'file:///workspace/app.config.json', 'json')).toBeTruthy();
+        expect(matchDocumentSelector(selector, 'inmemory:///workspace/app.config.json', 'json')).toBeFalsy();
+        expect(matchDocumentSelector(selector, 'file:///workspace/package.json', 'json')).toBeFalsy();
+        expect(matchDocumentSelector(selector, 'file:///workspace/app.config.json', 'jsonc')).toBeFalsy();
+        // patterns without a slash are matched against the file name
+        expect(matchDocumentSelector([{ pattern: '*.ts' }], 'file:///workspace/src/main.ts', 'typescript')).toBeTruthy();
+        expect(matchDocumentSelector([{ scheme: 'untitled' }], 'untitled:Untitled-1', 'plaintext')).toBeTruthy();
+    });
+
+    test('test matchDocumentSelector: notebook filters never match', () => {
+        expect(matchDocumentSelector([{ notebook: 'jupyter-notebook', language: 'python' }], 'file:///workspace/main.py', 'python')).toBeFalsy();
+    });
+
 });
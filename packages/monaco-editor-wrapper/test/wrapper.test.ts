@@ -1,5 +1,7 @@
 import { describe, expect, test } from 'vitest';
-import { EditorAppClassic, MonacoEditorLanguageClientWrapper } from 'monaco-editor-wrapper';
+import { EditorAppClassic, MonacoEditorLanguageClientWrapper, createInProcessMessageTransports } from 'monaco-editor-wrapper';
+import { editor, MarkerSeverity } from 'monaco-editor';
+import { createProtocolConnection, DidOpenTextDocumentNotification, DidSaveTextDocumentNotification, DidSaveTextDocumentParams, InitializeRequest, InitializeResult, PublishDiagnosticsNotification, ShutdownRequest, TextDocumentSyncKind } from 'vscode-languageserver-protocol/browser.js';
 
 import { buildWorkerDefinition } from 'monaco-editor-workers';
 import { createBaseConfig, createMonacoEditorDiv } from './helper.js';
@@ -30,4 +32,437 @@ describe('Test MonacoEditorLanguageClientWrapper', () => {
         expect(appConfig.automaticLayout).toBeTruthy();
         expect(appConfig.theme).toBe('vs-light');
     });
+
+    test('Duplicate language client names are rejected', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.languageClientConfig = {
+            options: {
+                $type: 'WebSocketUrl',
+                url: 'ws://localhost:12345/Tester',
+                name: 'json'
+            }
+        };
+        userConfig.languageClientConfigs = {
+            json: {
+                options: {
+                    $type: 'WebSocketUrl',
+                    url: 'ws://localhost:12346/Tester'
+                }
+            }
+        };
+        await expect(wrapper.start(userConfig)).rejects.toThrowError('Language client name "json" is used more than once.');
+    });
+
+    test('Open, switch and close additional models', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.wrapperConfig.editorAppConfig.codeUri = '/workspace/main.ts';
+        await wrapper.start(userConfig);
+
+        await wrapper.openModel('/workspace/lib.ts', 'export const answer = 42;');
+        expect(wrapper.getModelUris()).toEqual(['file:///workspace/main.ts', 'file:///workspace/lib.ts']);
+
+        await wrapper.switchModel('/workspace/lib.ts');
+        expect(wrapper.getActiveModelUri()).toBe('file:///workspace/lib.ts');
+        expect(wrapper.getModel()?.getValue()).toBe('export const answer = 42;');
+
+        await wrapper.closeModel('/workspace/lib.ts');
+        expect(wrapper.getActiveModelUri()).toBe('file:///workspace/main.ts');
+        expect(wrapper.getModelUris()).toEqual(['file:///workspace/main.ts']);
+    });
+
+    test('Lifecycle events are fired on start and dispose', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const events: string[] = [];
+        wrapper.onDidStartEditor(event => events.push(`start:${event.appType}`));
+        wrapper.onDidDisposeEditor(() => events.push('dispose'));
+
+        await wrapper.start(createBaseConfig('classic'));
+        await wrapper.dispose();
+        expect(events).toEqual(['start:classic', 'dispose']);
+    });
+
+    test('Structured status', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.id = 'status';
+        userConfig.wrapperConfig.editorAppConfig.codeUri = '/workspace/status.ts';
+        await wrapper.start(userConfig);
+
+        expect(wrapper.getStatus()).toEqual({
+            id: 'status',
+            started: true,
+            editorAppType: 'classic',
+            editorKind: 'editor',
+            modelUris: ['file:///workspace/status.ts'],
+            activeModelUri: 'file:///workspace/status.ts',
+            languageClients: []
+        });
+    });
+
+    test('Editor state is restored on restart', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.id = 'state';
+        userConfig.wrapperConfig.editorAppConfig.code = 'const a = 1;';
+        userConfig.editorStateConfig = {};
+        await wrapper.start(userConfig);
+
+        wrapper.getModel()!.setValue('const b = 2;');
+        wrapper.getEditor()!.setPosition({ lineNumber: 1, column: 7 });
+
+        await wrapper.start(userConfig);
+        expect(wrapper.getModel()!.getValue()).toBe('const b = 2;');
+        expect(wrapper.getEditor()!.getPosition()?.column).toBe(7);
+    });
+
+    test('Switch to diff editor and back keeps the model', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.wrapperConfig.editorAppConfig.code = 'const a = 1;';
+        await wrapper.start(userConfig);
+        const model = wrapper.getModel();
+
+        await wrapper.setEditorMode('diff', { codeOriginal: 'const a = 0;' });
+        expect(wrapper.getEditorMode()).toBe('diff');
+        expect(wrapper.getEditor()).toBeUndefined();
+        expect(wrapper.getDiffEditor()?.getModel()?.modified).toBe(model);
+        expect(wrapper.getModel(true)?.getValue()).toBe('const a = 0;');
+
+        await wrapper.setEditorMode('code');
+        expect(wrapper.getEditorMode()).toBe('code');
+        expect(wrapper.getDiffEditor()).toBeUndefined();
+        expect(wrapper.getModel()).toBe(model);
+    });
+
+    test('Switch to diff editor without original code is rejected', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.wrapperConfig.editorAppConfig.code = 'const a = 1;';
+        await wrapper.start(userConfig);
+
+        await expect(wrapper.setEditorMode('diff')).rejects.toMatchObject({
+            code: 'CONFIG_MISSING',
+            message: 'You cannot switch to the diff editor without the original code.'
+        });
+        expect(wrapper.getEditorMode()).toBe('code');
+        expect(wrapper.getEditor()).toBeDefined();
+    });
+
+    test('Switch from merge to diff editor and back re-creates the merge conflict controller', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.wrapperConfig.editorAppConfig.mergeEditorConfig = {
+            base: { code: 'a\nb\nc' },
+            ours: { code: 'a\nB\nc' },
+            theirs: { code: 'a\nX\nc' }
+        };
+        await wrapper.start(userConfig);
+        const controller = wrapper.getMergeConflictController();
+        expect(wrapper.getEditorMode()).toBe('merge');
+        expect(wrapper.getRemainingConflictCount()).toBe(1);
+
+        await wrapper.setEditorMode('diff', { codeOriginal: 'a\nb\nc' });
+        expect(wrapper.getEditorMode()).toBe('diff');
+        expect(wrapper.getMergeConflictController()).toBeUndefined();
+        expect(() => wrapper.acceptMergeConflict(0, 'ours')).toThrowError('merge editor is not shown');
+
+        await wrapper.setEditorMode('merge');
+        expect(wrapper.getEditorMode()).toBe('merge');
+        expect(wrapper.getMergeConflictController()).toBeDefined();
+        expect(wrapper.getMergeConflictController()).not.toBe(controller);
+        expect(wrapper.getRemainingConflictCount()).toBe(1);
+        wrapper.acceptMergeConflict(0, 'theirs');
+        expect(wrapper.getRemainingConflictCount()).toBe(0);
+        expect(wrapper.getModel()?.getValue()).toBe('a\nX\nc');
+
+        await wrapper.setEditorMode('code');
+        expect(wrapper.getEditorMode()).toBe('code');
+        expect(wrapper.getMergeConflictController()).toBeUndefined();
+        expect(wrapper.getModel()?.getValue()).toBe('a\nX\nc');
+    });
+
+    test('Switch from regular to merge editor merges into the model', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.wrapperConfig.editorAppConfig.code = 'a\nb\nc';
+        await wrapper.start(userConfig);
+        const model = wrapper.getModel();
+
+        await expect(wrapper.setEditorMode('merge')).rejects.toThrowError('without a merge editor configuration');
+        expect(wrapper.getEditorMode()).toBe('code');
+
+        await wrapper.setEditorMode('merge', {
+            mergeEditorConfig: {
+                base: { code: 'a\nb\nc' },
+                ours: { code: 'a\nB\nc' },
+                theirs: { code: 'a\nX\nc' }
+            }
+        });
+        expect(wrapper.getEditorMode()).toBe('merge');
+        expect(wrapper.getModel()).toBe(model);
+        expect(wrapper.getRemainingConflictCount()).toBe(1);
+        expect(wrapper.getModelUris()).toHaveLength(4);
+    });
+
+    test('Diagnostics of all models are collected and revealed in the editor', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.wrapperConfig.editorAppConfig.codeUri = '/workspace/problems.ts';
+        await wrapper.start(userConfig);
+        const other = await wrapper.openModel('/workspace/problems-other.ts', 'const a = 1;\nconst b = 2;');
+
+        const changedUris: string[] = [];
+        wrapper.onDidChangeDiagnostics(event => changedUris.push(...event.uris));
+        editor.setModelMarkers(other!, 'test', [{
+            severity: MarkerSeverity.Error,
+            message: 'b is unused',
+            startLineNumber: 2,
+            startColumn: 7,
+            endLineNumber: 2,
+            endColumn: 8
+        }]);
+        expect(changedUris).toEqual(['file:///workspace/problems-other.ts']);
+        expect(wrapper.getDiagnosticCounts().errors).toBe(1);
+
+        const [diagnostic] = wrapper.getDiagnostics();
+        await wrapper.revealDiagnostic(diagnostic);
+        expect(wrapper.getActiveModelUri()).toBe('file:///workspace/problems-other.ts');
+        expect(wrapper.getEditor()?.getSelection()?.toString()).toBe('[2,7 -> 2,8]');
+        await wrapper.dispose();
+    });
+
+    test('Save passes the content to the save handler and clears the dirty state', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        const saved: Array<[string, string]> = [];
+        userConfig.saveHandler = (uri, content) => {
+            saved.push([uri, content]);
+        };
+        await wrapper.start(userConfig);
+        expect(wrapper.isDirty()).toBeFalsy();
+
+        wrapper.getModel()!.setValue('const b = 2;');
+        expect(wrapper.isDirty()).toBeTruthy();
+
+        await wrapper.save();
+        expect(saved).toEqual([[wrapper.getActiveModelUri(), 'const b = 2;']]);
+        expect(wrapper.isDirty()).toBeFalsy();
+        expect(wrapper.getDirtyUris()).toEqual([]);
+    });
+
+    test('Undoing all changes makes the model clean', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        await wrapper.start(createBaseConfig('classic'));
+
+        wrapper.getEditor()!.trigger('test', 'type', { text: 'x' });
+        expect(wrapper.isDirty()).toBeTruthy();
+        wrapper.getEditor()!.trigger('test', 'undo', null);
+        expect(wrapper.isDirty()).toBeFalsy();
+    });
+
+    test('Languageclients connected via MessagePort have separate connections to one server', async () => {
+        const serverPorts: MessagePort[] = [];
+        const connectToServer = () => {
+            const channel = new MessageChannel();
+            const serverPort = channel.port2;
+            serverPort.onmessage = (ev: MessageEvent) => {
+                // answer all requests, initialize with empty capabilities
+                if (ev.data.id !== undefined && ev.data.method !== undefined) {
+                    serverPort.postMessage({ jsonrpc: '2.0', id: ev.data.id, result: ev.data.method === 'initialize' ? { capabilities: {} } : null });
+                }
+            };
+            serverPorts.push(serverPort);
+            return channel.port1;
+        };
+
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.languageClientConfigs = {
+            first: { options: { $type: 'MessagePort', port: connectToServer } },
+            second: { options: { $type: 'MessagePort', port: connectToServer } }
+        };
+        await wrapper.start(userConfig);
+        expect(serverPorts.length).toBe(2);
+        expect(wrapper.getLanguageClientWrapper('first')?.getMessagePort()).toBeDefined();
+
+        await wrapper.getLanguageClientWrapper('first')!.disposeLanguageClient();
+        expect(wrapper.getLanguageClientWrapper('first')?.getMessagePort()).toBeUndefined();
+        expect(wrapper.getLanguageClientWrapper('second')?.isStarted()).toBeTruthy();
+
+        await wrapper.dispose();
+    });
+
+    test('Save notifies an in-process language server', async () => {
+        const didSaveParams: DidSaveTextDocumentParams[] = [];
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.saveHandler = () => {};
+        userConfig.languageClientConfig = {
+            options: {
+                $type: 'InProcess',
+                createMessageTransports: () => createInProcessMessageTransports(serverTransports => {
+                    const serverConnection = createProtocolConnection(serverTransports.reader, serverTransports.writer);
+                    serverConnection.onRequest(InitializeRequest.type, (): InitializeResult => ({
+                        capabilities: {
+                            textDocumentSync: { openClose: true, change: TextDocumentSyncKind.Full, save: { includeText: true } }
+                        }
+                    }));
+                    serverConnection.onRequest(ShutdownRequest.type, () => undefined);
+                    serverConnection.onNotification(DidSaveTextDocumentNotification.type, params => {
+                        didSaveParams.push(params);
+                    });
+                    serverConnection.listen();
+                })
+            }
+        };
+        await wrapper.start(userConfig);
+        expect(wrapper.getLanguageClientWrapper()?.isStarted()).toBeTruthy();
+
+        wrapper.getModel()!.setValue('const b = 2;');
+        await wrapper.save();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(didSaveParams).toEqual([{ textDocument: { uri: wrapper.getActiveModelUri() }, text: 'const b = 2;' }]);
+
+        await wrapper.dispose();
+    });
+
+    test('Middleware of the client options rewrites diagnostics', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.wrapperConfig.editorAppConfig.codeUri = '/workspace/middleware.ts';
+        userConfig.languageClientConfig = {
+            options: {
+                $type: 'InProcess',
+                createMessageTransports: () => createInProcessMessageTransports(serverTransports => {
+                    const serverConnection = createProtocolConnection(serverTransports.reader, serverTransports.writer);
+                    serverConnection.onRequest(InitializeRequest.type, (): InitializeResult => ({
+                        capabilities: {
+                            textDocumentSync: { openClose: true, change: TextDocumentSyncKind.Full }
+                        }
+                    }));
+                    serverConnection.onRequest(ShutdownRequest.type, () => undefined);
+                    serverConnection.onNotification(DidOpenTextDocumentNotification.type, params => {
+                        serverConnection.sendNotification(PublishDiagnosticsNotification.type, {
+                            uri: params.textDocument.uri,
+                            diagnostics: [{ message: 'unused', range: { start: { line: 0, character: 0 }, end: { line: 0, character: 5 } } }]
+                        });
+                    });
+                    serverConnection.listen();
+                })
+            },
+            clientOptions: {
+                diagnosticCollectionName: 'middleware-test',
+                middleware: {
+                    handleDiagnostics: (uri, diagnostics, next) => {
+                        diagnostics.forEach(diagnostic => diagnostic.message = diagnostic.message.toUpperCase());
+                        next(uri, diagnostics);
+                    }
+                }
+            }
+        };
+        const diagnosticsChanged = new Promise<void>(resolve => {
+            wrapper.onDidChangeDiagnostics(() => resolve());
+        });
+        await wrapper.start(userConfig);
+        await diagnosticsChanged;
+
+        expect(wrapper.getDiagnostics().map(marker => marker.message)).toEqual(['UNUSED']);
+        expect(wrapper.getDiagnostics(undefined, { owner: 'middleware-test' }).length).toBe(1);
+        await wrapper.dispose();
+    });
+
+    test('Custom messages are handled across restarts of the languageclient', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.languageClientConfig = {
+            options: {
+                $type: 'InProcess',
+                createMessageTransports: () => createInProcessMessageTransports(serverTransports => {
+                    const serverConnection = createProtocolConnection(serverTransports.reader, serverTransports.writer);
+                    serverConnection.onRequest(InitializeRequest.type, (): InitializeResult => ({ capabilities: {} }));
+                    serverConnection.onRequest(ShutdownRequest.type, () => undefined);
+                    serverConnection.onRequest('example/echo', (params: { text: string }) => params);
+                    serverConnection.onNotification('example/ping', async () => {
+                        const answer = await serverConnection.sendRequest('example/double', { value: 21 });
+                        serverConnection.sendNotification('example/pong', { answer });
+                    });
+                    serverConnection.listen();
+                })
+            }
+        };
+        const pongs: unknown[] = [];
+        let pongReceived: () => void = () => {};
+        // registered before the start, so the languageclient is not yet created
+        wrapper.onNotification<{ answer: number }>('example/pong', params => {
+            pongs.push(params.answer);
+            pongReceived();
+        });
+        wrapper.onRequest<{ value: number }, number>('example/double', params => params.value * 2);
+        expect(() => wrapper.onRequest('example/double', () => 0)).toThrowError(/already registered/);
+        const ping = async () => {
+            const pong = new Promise<void>(resolve => pongReceived = resolve);
+            await wrapper.sendNotification('example/ping');
+            await pong;
+        };
+
+        await wrapper.start(userConfig);
+        expect(await wrapper.sendRequest('example/echo', { text: 'hello' })).toEqual({ text: 'hello' });
+        await ping();
+
+        await wrapper.restartLanguageClient();
+        await ping();
+        expect(pongs).toEqual([42, 42]);
+
+        await wrapper.dispose();
+        await expect(wrapper.sendRequest('example/echo', { text: 'hello' })).rejects.toHaveProperty('code', 'LANGUAGE_CLIENT_NOT_STARTED');
+    });
+
+    test('Start of a languageclient whose server never answers times out', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.languageClientConfig = {
+            options: {
+                $type: 'InProcess',
+                name: 'silent',
+                // the server side never reads the initialize request
+                createMessageTransports: () => createInProcessMessageTransports(() => {})
+            },
+            startTimeout: 100
+        };
+        await expect(wrapper.start(userConfig)).rejects.toMatchObject({
+            name: 'LanguageClientStartError',
+            code: 'LANGUAGE_CLIENT_START_TIMEOUT',
+            message: 'languageClientWrapper (silent): Start timed out after 100ms.'
+        });
+        expect(wrapper.getLanguageClientWrapper()?.haveLanguageClient()).toBeFalsy();
+    });
+
+    test('Aborted start disposes the editor', async () => {
+        createMonacoEditorDiv();
+        const wrapper = new MonacoEditorLanguageClientWrapper();
+        const abortController = new AbortController();
+        const started = wrapper.start(createBaseConfig('classic'), { signal: abortController.signal });
+        abortController.abort();
+        await expect(started).rejects.toMatchObject({ name: 'StartAbortedError', code: 'START_ABORTED' });
+        expect(wrapper.getEditor()).toBeUndefined();
+    });
 });
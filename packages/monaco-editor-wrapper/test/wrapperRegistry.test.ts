@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'vitest';
+import { getWrapperById, getWrapperIds, MonacoEditorLanguageClientWrapper } from 'monaco-editor-wrapper';
+
+import { buildWorkerDefinition } from 'monaco-editor-workers';
+import { createBaseConfig, createMonacoEditorDiv } from './helper.js';
+buildWorkerDefinition('../../../node_modules/monaco-editor-workers/dist/workers', import.meta.url, false);
+
+describe('Test wrapper registry', () => {
+
+    test('Wrappers without id get unique ids and separate models', async () => {
+        createMonacoEditorDiv();
+        const wrapperA = new MonacoEditorLanguageClientWrapper();
+        const wrapperB = new MonacoEditorLanguageClientWrapper();
+        await wrapperA.start(createBaseConfig('classic'));
+        await wrapperB.start(createBaseConfig('classic'));
+
+        const idA = wrapperA.getStatus().id;
+        const idB = wrapperB.getStatus().id;
+        expect(idA).not.toBe(idB);
+        expect(getWrapperById(idA)).toBe(wrapperA);
+        expect(getWrapperById(idB)).toBe(wrapperB);
+        expect(wrapperA.getModel()).not.toBe(wrapperB.getModel());
+
+        // the generated id is kept on restart
+        await wrapperA.start(createBaseConfig('classic'));
+        expect(wrapperA.getStatus().id).toBe(idA);
+
+        await wrapperA.dispose();
+        await wrapperB.dispose();
+        expect(getWrapperById(idA)).toBeUndefined();
+        expect(getWrapperIds()).not.toContain(idB);
+    });
+
+    test('A wrapper id can only be used once', async () => {
+        createMonacoEditorDiv();
+        const wrapperA = new MonacoEditorLanguageClientWrapper();
+        const wrapperB = new MonacoEditorLanguageClientWrapper();
+        const userConfig = createBaseConfig('classic');
+        userConfig.id = 'registry-duplicate';
+        await wrapperA.start(userConfig);
+
+        await expect(wrapperB.start(userConfig)).rejects.toMatchObject({
+            name: 'WrapperConfigError',
+            code: 'CONFIG_DUPLICATE_ID'
+        });
+
+        await wrapperA.dispose();
+        await wrapperB.start(userConfig);
+        expect(getWrapperById('registry-duplicate')).toBe(wrapperB);
+        await wrapperB.dispose();
+    });
+
+    test('Model uris used by another wrapper are rejected', async () => {
+        createMonacoEditorDiv();
+        const wrapperA = new MonacoEditorLanguageClientWrapper();
+        const wrapperB = new MonacoEditorLanguageClientWrapper();
+        const userConfigA = createBaseConfig('classic');
+        userConfigA.id = 'registry-a';
+        userConfigA.wrapperConfig.editorAppConfig.codeUri = '/workspace/shared.ts';
+        await wrapperA.start(userConfigA);
+        await wrapperA.openModel('/workspace/other.ts', '');
+
+        const userConfigB = createBaseConfig('classic');
+        userConfigB.wrapperConfig.editorAppConfig.codeUri = '/workspace/shared.ts';
+        await expect(wrapperB.start(userConfigB)).rejects.toMatchObject({
+            name: 'WrapperStateError',
+            code: 'MODEL_URI_CONFLICT',
+            message: 'The model file:///workspace/shared.ts is already used by wrapper registry-a.'
+        });
+        expect(getWrapperById(wrapperB.getStatus().id)).toBeUndefined();
+        expect(getWrapperById('registry-a')).toBe(wrapperA);
+
+        userConfigB.wrapperConfig.editorAppConfig.codeUri = '/workspace/separate.ts';
+        await wrapperB.start(userConfigB);
+        expect(getWrapperById(wrapperB.getStatus().id)).toBe(wrapperB);
+        await expect(wrapperB.openModel('/workspace/other.ts', '')).rejects.toMatchObject({
+            code: 'MODEL_URI_CONFLICT'
+        });
+
+        await wrapperA.dispose();
+        await wrapperB.dispose();
+    });
+});